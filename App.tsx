@@ -1,88 +1,699 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { LiveManager } from './services/liveManager';
-import { DetectedIntent, IntentType } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useLiveMonitor } from './lib/useLiveMonitor';
+import {
+  deleteKnowledgeDocument,
+  deleteSession,
+  getSessionAudio,
+  listKnowledgeDocuments,
+  saveKnowledgeDocument,
+  saveSession,
+  saveSessionAudio,
+} from './services/sessionStore';
+import { loadRecordAudio, saveRecordAudio, SessionAudioRecorder } from './services/audioRecorder';
+import { loadCategories, saveCategories } from './services/intentTaxonomy';
+import { LiveTransport, RelayTransport } from './services/transport';
+import { loadRelayAccessKey, saveRelayAccessKey } from './services/relay';
+import { buildDiagnosticBundle, downloadDiagnosticBundle } from './services/liveMetrics';
+import { MockTransport } from './services/mockTransport';
+import { RecordingTransport } from './services/recordingTransport';
+import { DEMO_FIXTURE, downloadFixture, LiveFixture, parseFixture } from './services/liveFixture';
+import { loadVadSettings, saveVadSettings } from './services/voiceActivity';
+import {
+  DEFAULT_LIVE_CONFIG,
+  LiveManagerConfig,
+  loadLiveConfig,
+  saveLiveConfig,
+  validateLiveConfig,
+} from './services/liveConfig';
+import { createBuiltinCommandRegistry } from './services/builtinCommands';
+import { loadPlaybackSettings, savePlaybackSettings } from './services/answerPlayback';
+import { collectSpeakers, loadDiarizationSettings, saveDiarizationSettings } from './services/speakers';
+import { SessionReporter } from './services/sessionReport';
+import { IntegrationHub, loadIntegrationSettings, saveIntegrationSettings, SinkStatus } from './services/integrations';
+import { compileWatchTerms, loadWatchlistSettings, playAlertSound, saveWatchlistSettings } from './services/watchlist';
+import { KnowledgeIndex } from './services/knowledgeBase';
+import {
+  AudioFileSource,
+  DisplayAudioSource,
+  InputSource,
+  InputSourceKind,
+  listMicrophones,
+  loadMicrophoneSettings,
+  MicrophoneSource,
+  saveMicrophoneSettings,
+} from './services/inputSources';
+import {
+  AudioHold,
+  ConnectionState,
+  DetectedIntent,
+  DiarizationSettings,
+  InputHealth,
+  IntegrationSettings,
+  IntegrationSinkKind,
+  IntentCategory,
+  KnowledgeDocument,
+  MicrophoneSettings,
+  MonitoringSession,
+  SessionReport,
+  PlaybackSettings,
+  SessionAudio,
+  SpeakerNames,
+  TranscriptSegment,
+  VadSettings,
+  WatchlistSettings,
+} from './types';
 import { TranscriptLog } from './components/TranscriptLog';
 import { IntentPanel } from './components/IntentPanel';
 import { Visualizer } from './components/Visualizer';
+import { SessionHistory } from './components/SessionHistory';
+import { ExportMenu } from './components/ExportMenu';
+import { TaxonomyEditor } from './components/TaxonomyEditor';
+import { DevToolsMenu, TransportMode } from './components/DevToolsMenu';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { InputSourcePicker } from './components/InputSourcePicker';
+import { VoiceGateMenu } from './components/VoiceGateMenu';
+import { SpeakerMenu } from './components/SpeakerMenu';
+import { PlaybackMenu } from './components/PlaybackMenu';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SessionAudioPlayer } from './components/SessionAudioPlayer';
+import { MicrophoneMenu } from './components/MicrophoneMenu';
+import { ReportPanel } from './components/ReportPanel';
+import { IntegrationsPanel } from './components/IntegrationsPanel';
+import { WatchlistEditor } from './components/WatchlistEditor';
+import { KnowledgeBasePanel } from './components/KnowledgeBasePanel';
+
+const INPUT_HEALTH_WARNINGS: Record<InputHealth, string | null> = {
+  ok: null,
+  clipping: 'Input is clipping — lower the gain',
+  tooQuiet: 'Input is very quiet — check the mic',
+  silent: 'No signal — is the mic muted?',
+};
+
+// Pause and mute while monitoring; plain keys, ignored while typing
+const HOLD_SHORTCUTS = { pause: 'KeyP', mute: 'KeyM' };
+
+const HOLD_BADGES: Record<AudioHold, { label: string; className: string } | null> = {
+  live: null,
+  muted: { label: 'Muted', className: 'text-red-400 bg-red-400/10 border-red-400/20' },
+  paused: { label: 'Paused · off the record', className: 'text-amber-400 bg-amber-400/10 border-amber-400/20' },
+};
+
+const CONNECTION_BADGES: Record<ConnectionState, { label: string; className: string } | null> = {
+  [ConnectionState.IDLE]: null,
+  [ConnectionState.CONNECTING]: { label: 'Connecting', className: 'text-cyan-400 bg-cyan-400/10 border-cyan-400/20' },
+  [ConnectionState.OPEN]: { label: 'Live', className: 'text-green-400 bg-green-400/10 border-green-400/20' },
+  [ConnectionState.RECONNECTING]: { label: 'Reconnecting', className: 'text-amber-400 bg-amber-400/10 border-amber-400/20 animate-pulse' },
+  [ConnectionState.CLOSING]: { label: 'Stopping', className: 'text-zinc-400 bg-zinc-800/50 border-zinc-700' },
+  [ConnectionState.FAILED]: { label: 'Connection failed', className: 'text-red-400 bg-red-400/10 border-red-400/20' },
+};
+
+// A remembered device that isn't plugged in falls back to the system default
+function resolveMicrophone(settings: MicrophoneSettings, devices: MediaDeviceInfo[]): MicrophoneSettings {
+  const available = settings.deviceId === null || devices.some(d => d.deviceId === settings.deviceId);
+  return available ? settings : { ...settings, deviceId: null };
+}
+
+type LiveSessionInfo = Pick<MonitoringSession, 'id' | 'startedAt' | 'endedAt' | 'hasAudio' | 'translation' | 'report'>;
+
+// The post-session report being written (or that failed) for one session
+interface ReportJob {
+  sessionId: string;
+  generating: boolean;
+  error: string | null;
+}
+
+// The segment being spoken at `timestamp`: the last one that started before it
+function segmentAt(segments: TranscriptSegment[], timestamp: number): TranscriptSegment | undefined {
+  let found: TranscriptSegment | undefined;
+  for (const segment of segments) {
+    if (segment.timestamp > timestamp) break;
+    found = segment;
+  }
+  return found;
+}
+
+// A stored config can go stale, e.g. when a command it enables is removed;
+// the defaults replace it then
+function loadUsableLiveConfig(): { config: LiveManagerConfig; reset: boolean } {
+  const config = loadLiveConfig();
+  const problems = validateLiveConfig(config, createBuiltinCommandRegistry().names);
+  if (problems.length === 0) return { config, reset: false };
+  console.warn('Ignoring stored settings', problems);
+  saveLiveConfig(DEFAULT_LIVE_CONFIG);
+  return { config: DEFAULT_LIVE_CONFIG, reset: true };
+}
 
 const App: React.FC = () => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [volume, setVolume] = useState(0);
-  const [transcriptHistory, setTranscriptHistory] = useState<string[]>([]);
-  const [currentTranscript, setCurrentTranscript] = useState('');
-  const [intents, setIntents] = useState<DetectedIntent[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // Model, voice, prompt and tools sent when a session opens
+  const [storedConfig] = useState(loadUsableLiveConfig);
+  const [liveConfig, setLiveConfig] = useState<LiveManagerConfig>(storedConfig.config);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // The manager and the run state it reports
+  const {
+    manager,
+    connectionState,
+    analyser,
+    inputHealth,
+    segments: transcriptHistory,
+    currentSegment,
+    intents,
+    alerts,
+    audioHold,
+    metrics,
+    speaking,
+    answerPlaying,
+  } = useLiveMonitor({ config: storedConfig.config });
+  const [error, setError] = useState<string | null>(
+    storedConfig.reset ? 'Saved settings were invalid and have been reset.' : null
+  );
+
+  // Persistence / history browsing
+  const [liveSession, setLiveSession] = useState<LiveSessionInfo | null>(null);
+  const [viewedSession, setViewedSession] = useState<MonitoringSession | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Post-session report, written by a text model once a run ends
+  const [reportJob, setReportJob] = useState<ReportJob | null>(null);
+  const reporterRef = useRef<SessionReporter | null>(null);
+  // Runs whose report has been requested automatically, so it happens once
+  const autoReported = useRef(new Set<string>());
+  // Lets a report that finishes later find out whether its session is still the live one
+  const liveSessionRef = useRef(liveSession);
+  liveSessionRef.current = liveSession;
+
+  // Outbound event stream (webhook, host page, other tabs)
+  const [integrations] = useState(() => new IntegrationHub());
+  const [integrationSettings, setIntegrationSettings] = useState<IntegrationSettings>(loadIntegrationSettings);
+  const [sinkStatuses, setSinkStatuses] = useState<Partial<Record<IntegrationSinkKind, SinkStatus>>>({});
+  const [showIntegrations, setShowIntegrations] = useState(false);
+  // The run whose session.started went out, so session.ended is published exactly once
+  const announcedRun = useRef<string | null>(null);
+
+  // Local recording of the input and synced playback
+  const [recordAudio, setRecordAudio] = useState(loadRecordAudio);
+  const [finishedRecorder, setFinishedRecorder] = useState<SessionAudioRecorder | null>(null);
+  const [liveAudio, setLiveAudio] = useState<SessionAudio | null>(null);
+  const [viewedAudio, setViewedAudio] = useState<SessionAudio | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ timestamp: number } | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+
+  // Local watch terms; the ref lets manager callbacks see the latest alert options
+  const [watchlist, setWatchlist] = useState<WatchlistSettings>(loadWatchlistSettings);
+  const [showWatchlist, setShowWatchlist] = useState(false);
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+  const compiledWatchTerms = useMemo(() => compileWatchTerms(watchlist.terms), [watchlist.terms]);
+
+  // Team documents the model can search when answering questions (IndexedDB)
+  const [knowledgeDocuments, setKnowledgeDocuments] = useState<KnowledgeDocument[]>([]);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  const knowledgeIndex = useMemo(() => new KnowledgeIndex(knowledgeDocuments), [knowledgeDocuments]);
+
+  // User-defined intent taxonomy
+  const [categories, setCategories] = useState<IntentCategory[]>(loadCategories);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+
+  // Transport selection: real Gemini socket or offline fixture replay, optionally recorded
+  const [transportMode, setTransportMode] = useState<TransportMode>('gemini');
+  const [relayAccessKey, setRelayAccessKey] = useState(loadRelayAccessKey);
+  const [fixture, setFixture] = useState<LiveFixture>(DEMO_FIXTURE);
+  const [recordEnabled, setRecordEnabled] = useState(false);
+  const [recorder, setRecorder] = useState<RecordingTransport | null>(null);
+
+  // Audio input selection
+  const [sourceKind, setSourceKind] = useState<InputSourceKind>('microphone');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [fileSpeed, setFileSpeed] = useState(1);
+  const [inputLabel, setInputLabel] = useState('Microphone');
+  const [inputEnded, setInputEnded] = useState(false);
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(loadMicrophoneSettings);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+
+  // Client-side voice gating
+  const [vadSettings, setVadSettings] = useState<VadSettings>(loadVadSettings);
 
-  // Use a ref to persist the manager instance without re-rendering
-  const managerRef = useRef<LiveManager | null>(null);
+  // Speaker attribution; names belong to the live session
+  const [diarization, setDiarization] = useState<DiarizationSettings>(loadDiarizationSettings);
+  const [speakerNames, setSpeakerNames] = useState<SpeakerNames>({});
+
+  // Spoken answer playback
+  const [playback, setPlayback] = useState<PlaybackSettings>(loadPlaybackSettings);
+
+  // Recording covers the whole run, including reconnect gaps
+  const isRecording = connectionState !== ConnectionState.IDLE && connectionState !== ConnectionState.FAILED;
+  const connectionBadge = CONNECTION_BADGES[connectionState];
+  const holdBadge = isRecording ? HOLD_BADGES[audioHold] : null;
+  const inputWarning = isRecording && !inputEnded ? INPUT_HEALTH_WARNINGS[inputHealth] : null;
 
-  // Initialize Manager once
   useEffect(() => {
-    managerRef.current = new LiveManager();
+    manager.setIntentCategories(categories);
+  }, [manager, categories]);
 
-    managerRef.current.onVolumeUpdate = (vol) => {
-      setVolume(vol);
-    };
+  // What the app does with a run beyond showing it: publish to integrations,
+  // alert, and keep the live session and its recording up to date
+  useEffect(() => {
+    const unsubscribers = [
+      manager.on('segment', (segment) => {
+        if (segment.isFinal && liveSessionRef.current) {
+          integrations.publish(liveSessionRef.current.id, { type: 'segment.finalized', segment });
+        }
+      }),
 
-    managerRef.current.onTranscriptUpdate = (text) => {
-      // Simple logic: if text ends with punctuation, consider it a segment
-      // The API sends cumulative updates for the current turn.
-      // We'll display the current cumulative text in `currentTranscript`.
-      // When it's "done" (this logic is imperfect with streaming text, 
-      // usually we rely on turnComplete but for monitoring we just show raw)
-      // We will simply display the raw streaming text.
-      // To make it look like a log, if the text gets very long or clears, we push to history.
-      // For this demo: we just update current.
-      // IMPROVEMENT: If the text drastically changes or is empty, it might be a new turn.
-      // But for simplicity, we just show what the server sends.
-      
-      // If the new text is shorter than previous, it's likely a new turn started, push previous to history
-      setCurrentTranscript(prev => {
-        if (text.length < prev.length && prev.trim().length > 0) {
-          setTranscriptHistory(h => [...h, prev]);
-          return text;
+      manager.on('intent', (intent) => {
+        if (liveSessionRef.current) {
+          integrations.publish(liveSessionRef.current.id, { type: 'intent.detected', intent });
         }
-        return text;
-      });
+      }),
+
+      manager.on('watchAlert', (alert) => {
+        if (liveSessionRef.current) {
+          integrations.publish(liveSessionRef.current.id, { type: 'watch.alert', alert });
+        }
+
+        const { notify, sound } = watchlistRef.current;
+        if (sound) playAlertSound(alert.severity);
+        if (notify && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+          new Notification(`Watchlist: "${alert.match}"`, {
+            body: `${alert.severity.toUpperCase()} · matched ${alert.pattern}`,
+            tag: alert.id,
+          });
+        }
+      }),
+
+      manager.on('error', (err) => setError(err.message)),
+      manager.on('inputEnded', () => setInputEnded(true)),
+      manager.on('inputSwitched', (source) => setInputLabel(source.label)),
+      manager.on('audioRecorded', setFinishedRecorder),
+      manager.on('disconnect', () => setLiveSession(s => s && { ...s, endedAt: Date.now() })),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [manager, integrations]);
+
+  useEffect(() => {
+    saveVadSettings(vadSettings);
+    manager.setVadSettings(vadSettings);
+  }, [manager, vadSettings]);
+
+  useEffect(() => {
+    saveDiarizationSettings(diarization);
+    manager.setDiarizationSettings(diarization);
+  }, [manager, diarization]);
+
+  useEffect(() => {
+    savePlaybackSettings(playback);
+    manager.setPlaybackSettings(playback);
+  }, [manager, playback]);
+
+  useEffect(() => {
+    saveRecordAudio(recordAudio);
+    manager.setAudioRecording(recordAudio);
+  }, [manager, recordAudio]);
+
+  // A finished recording belongs to the run that just ended
+  useEffect(() => {
+    if (!finishedRecorder || !liveSession) return;
+    const audio = finishedRecorder.finish(liveSession.id);
+    setFinishedRecorder(null);
+    setLiveAudio(audio);
+    saveSessionAudio(audio)
+      .then(() => setLiveSession(s => s && { ...s, hasAudio: true }))
+      .catch(err => console.error('Failed to save session audio', err));
+  }, [finishedRecorder, liveSession]);
+
+  useEffect(() => {
+    setViewedAudio(null);
+    if (!viewedSession?.hasAudio) return;
+    let cancelled = false;
+    getSessionAudio(viewedSession.id)
+      .then(audio => !cancelled && setViewedAudio(audio ?? null))
+      .catch(err => console.error('Failed to load session audio', err));
+    return () => {
+      cancelled = true;
     };
+  }, [viewedSession?.id, viewedSession?.hasAudio]);
+
+  const refreshMicrophones = useCallback(() => {
+    listMicrophones()
+      .then(setMicrophones)
+      .catch(err => console.warn('Could not list microphones', err));
+  }, []);
+
+  const isMicRun = isRecording && sourceKind === 'microphone';
+
+  const switchMicrophone = useCallback((settings: MicrophoneSettings) => {
+    manager.switchInputSource(new MicrophoneSource(settings)).catch(err => {
+      console.error('Microphone switch failed', err);
+      setError(err instanceof Error ? `Could not switch microphone: ${err.message}` : 'Could not switch microphone');
+    });
+  }, [manager]);
 
-    managerRef.current.onIntentDetected = (intentData) => {
-      const newIntent: DetectedIntent = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        ...intentData
-      };
-      setIntents(prev => [...prev, newIntent]);
+  const handleMicSettingsChange = useCallback((next: MicrophoneSettings) => {
+    saveMicrophoneSettings(next);
+    setMicSettings(next);
+    if (isMicRun) switchMicrophone(resolveMicrophone(next, microphones));
+  }, [isMicRun, microphones, switchMicrophone]);
+
+  // Plugging or unplugging a device: refresh the list, and while monitoring
+  // move to the preferred device if it (re)appeared or to the default if it went away
+  useEffect(() => {
+    refreshMicrophones();
+    const handleDeviceChange = async () => {
+      const devices = await listMicrophones().catch(() => null);
+      if (!devices) return;
+      setMicrophones(devices);
+
+      const current = manager.currentInputSource;
+      if (!isMicRun || !(current instanceof MicrophoneSource)) return;
+      const wanted = resolveMicrophone(micSettings, devices);
+      if (current.settings.deviceId !== wanted.deviceId) switchMicrophone(wanted);
     };
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+  }, [manager, isMicRun, micSettings, refreshMicrophones, switchMicrophone]);
 
-    managerRef.current.onError = (err) => {
-      setError(err.message);
-      setIsRecording(false);
+  // Pressing the same control again goes back to live
+  const toggleHold = useCallback((hold: Exclude<AudioHold, 'live'>) => {
+    manager.setAudioHold(manager.audioHold === hold ? 'live' : hold);
+  }, [manager]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const handleDown = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName);
+      if (e.repeat || typing || e.ctrlKey || e.metaKey || e.altKey || e.code === vadSettings.pushToTalkKey) return;
+      if (e.code === HOLD_SHORTCUTS.pause) toggleHold('paused');
+      else if (e.code === HOLD_SHORTCUTS.mute) toggleHold('muted');
     };
+    window.addEventListener('keydown', handleDown);
+    return () => window.removeEventListener('keydown', handleDown);
+  }, [isRecording, vadSettings.pushToTalkKey, toggleHold]);
+
+  // Push-to-talk key handling while a push-to-talk run is active
+  const pushToTalkActive = isRecording && vadSettings.mode === 'pushToTalk';
+  useEffect(() => {
+    if (!pushToTalkActive) return;
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName);
 
-    managerRef.current.onDisconnect = () => {
-      setIsRecording(false);
-      setCurrentTranscript(''); // Clear current when stopped
+    const handleDown = (e: KeyboardEvent) => {
+      if (e.code !== vadSettings.pushToTalkKey || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      manager.setPushToTalk(true);
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      if (e.code !== vadSettings.pushToTalkKey) return;
+      manager.setPushToTalk(false);
     };
+    // Releasing the key in another window would otherwise leave the gate open
+    const handleBlur = () => manager.setPushToTalk(false);
 
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
     return () => {
-      if (managerRef.current) {
-        managerRef.current.disconnect();
-      }
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+      manager.setPushToTalk(false);
     };
+  }, [manager, pushToTalkActive, vadSettings.pushToTalkKey]);
+
+  // Persist the live session as it grows; sessions that never captured anything aren't kept
+  useEffect(() => {
+    if (!liveSession) return;
+
+    const isEmpty = transcriptHistory.length === 0 && intents.length === 0 && alerts.length === 0 && !liveSession.hasAudio;
+    if (isEmpty) {
+      if (liveSession.endedAt) {
+        deleteSession(liveSession.id)
+          .then(() => setHistoryVersion(v => v + 1))
+          .catch(err => console.error('Failed to discard empty session', err));
+      }
+      return;
+    }
+
+    saveSession({ ...liveSession, transcript: transcriptHistory, intents, speakerNames, alerts })
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error('Failed to save session', err));
+  }, [liveSession, transcriptHistory, intents, speakerNames, alerts]);
+
+  useEffect(() => {
+    integrations.onStatusChange = (kind, status) => setSinkStatuses(prev => ({ ...prev, [kind]: status }));
+    return () => integrations.close();
+  }, [integrations]);
+
+  useEffect(() => {
+    saveIntegrationSettings(integrationSettings);
+    integrations.configure(integrationSettings);
+  }, [integrations, integrationSettings]);
+
+  useEffect(() => {
+    if (!liveSession?.endedAt || announcedRun.current !== liveSession.id) return;
+    announcedRun.current = null;
+    integrations.publish(liveSession.id, {
+      type: 'session.ended',
+      startedAt: liveSession.startedAt,
+      endedAt: liveSession.endedAt,
+      segmentCount: transcriptHistory.length,
+      intentCount: intents.length,
+    });
+  }, [integrations, liveSession, transcriptHistory, intents]);
+
+  const handleSaveIntegrations = useCallback((next: IntegrationSettings) => {
+    setIntegrationSettings(next);
+    setShowIntegrations(false);
   }, []);
 
-  const toggleRecording = useCallback(async () => {
-    if (!managerRef.current) return;
+  // Stores a report (generated or edited) on its session, wherever that session is shown
+  const attachReport = useCallback((session: MonitoringSession, report: SessionReport) => {
+    setViewedSession(v => (v?.id === session.id ? { ...v, report } : v));
+    if (liveSessionRef.current?.id === session.id) {
+      // Saved by the live session effect
+      setLiveSession(s => s && { ...s, report });
+      return;
+    }
+    saveSession({ ...session, report })
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error('Failed to save session report', err));
+  }, []);
+
+  const requestReport = useCallback(async (session: MonitoringSession) => {
+    setReportJob({ sessionId: session.id, generating: true, error: null });
+    try {
+      reporterRef.current ??= new SessionReporter();
+      const report = await reporterRef.current.generate(session);
+      attachReport(session, report);
+      integrations.publish(session.id, { type: 'report.generated', report });
+      setReportJob(job => (job?.sessionId === session.id ? null : job));
+    } catch (err) {
+      console.error('Report generation failed', err);
+      const message = err instanceof Error ? err.message : 'Report generation failed';
+      setReportJob(job => (job?.sessionId === session.id ? { ...job, generating: false, error: message } : job));
+    }
+  }, [attachReport, integrations]);
 
+  // Write the report as soon as a run with something to report on has ended
+  useEffect(() => {
+    if (!liveSession?.endedAt || liveSession.report || transcriptHistory.length === 0) return;
+    if (autoReported.current.has(liveSession.id)) return;
+    autoReported.current.add(liveSession.id);
+    requestReport({ ...liveSession, transcript: transcriptHistory, intents, speakerNames, alerts });
+  }, [liveSession, transcriptHistory, intents, speakerNames, alerts, requestReport]);
+
+  const toggleRecording = useCallback(async () => {
     if (isRecording) {
-      managerRef.current.disconnect();
+      manager.disconnect();
     } else {
+      let source: InputSource;
+      if (sourceKind === 'file') {
+        if (!sourceFile) {
+          setError('Choose an audio file to analyze first.');
+          return;
+        }
+        source = new AudioFileSource(sourceFile, fileSpeed);
+      } else {
+        source = sourceKind === 'display'
+          ? new DisplayAudioSource()
+          : new MicrophoneSource(resolveMicrophone(micSettings, microphones));
+      }
+      manager.setInputSource(source);
+      setInputLabel(source.label);
+      setInputEnded(false);
+
+      setError(null);
+      // Each monitoring run is its own stored session; the transcript, intents
+      // and alerts start over once it connects
+      setSpeakerNames({});
+      setLiveAudio(null);
+      setViewedSession(null);
+      const { enabled: translating, sourceLanguage, targetLanguage } = liveConfig.translation;
+      const run = { id: crypto.randomUUID(), startedAt: Date.now() };
+      setLiveSession({
+        ...run,
+        ...(translating && { translation: { sourceLanguage, targetLanguage } }),
+      });
+
+      let transport: LiveTransport = transportMode === 'replay' ? new MockTransport(fixture) : new RelayTransport();
+      if (recordEnabled) {
+        const recording = new RecordingTransport(transport);
+        setRecorder(recording);
+        transport = recording;
+      }
+      manager.setTransport(transport);
+
+      await manager.connect();
+      if (manager.isRunning) {
+        announcedRun.current = run.id;
+        integrations.publish(run.id, { type: 'session.started', startedAt: run.startedAt });
+      }
+      // Device names become available once access has been granted
+      setInputLabel(manager.currentInputSource.label);
+      if (sourceKind === 'microphone') refreshMicrophones();
+    }
+  }, [isRecording, transportMode, fixture, recordEnabled, sourceKind, sourceFile, fileSpeed, micSettings, microphones, refreshMicrophones, liveConfig, integrations, manager]);
+
+  const handleDownloadDiagnostics = useCallback(() => {
+    downloadDiagnosticBundle(buildDiagnosticBundle(metrics, {
+      connectionState,
+      transport: manager.transportLabel,
+      input: inputLabel,
+      config: liveConfig,
+      gating: isRecording ? manager.gating : vadSettings.mode,
+      diarization: diarization.enabled,
+      speakAnswers: playback.speakAnswers,
+      lastError: error,
+    }));
+  }, [manager, metrics, connectionState, inputLabel, liveConfig, isRecording, vadSettings, diarization, playback, error]);
+
+  // Read by the relay client on each request, so a new key applies to the next connection
+  const handleRelayAccessKeyChange = useCallback((key: string) => {
+    saveRelayAccessKey(key);
+    setRelayAccessKey(key);
+  }, []);
+
+  const handleLoadFixture = useCallback(async (file: File) => {
+    try {
+      setFixture(parseFixture(await file.text()));
       setError(null);
-      await managerRef.current.connect();
-      setIsRecording(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load fixture');
+    }
+  }, []);
+
+  const applyLiveConfig = useCallback((next: LiveManagerConfig) => {
+    try {
+      manager.setConfig(next);
+      saveLiveConfig(next);
+      setLiveConfig(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid settings');
+    }
+  }, [manager]);
+
+  const handleSaveSettings = useCallback((next: LiveManagerConfig) => {
+    applyLiveConfig(next);
+    setShowSettings(false);
+  }, [applyLiveConfig]);
+
+  useEffect(() => {
+    saveWatchlistSettings(watchlist);
+    manager.setWatchTerms(watchlist.terms);
+  }, [manager, watchlist]);
+
+  const handleSaveWatchlist = useCallback((next: WatchlistSettings) => {
+    setWatchlist(next);
+    setShowWatchlist(false);
+  }, []);
+
+  useEffect(() => {
+    listKnowledgeDocuments()
+      .then(setKnowledgeDocuments)
+      .catch(err => console.error('Failed to load knowledge base', err));
+  }, []);
+
+  useEffect(() => {
+    manager.setKnowledgeBase(knowledgeIndex);
+  }, [manager, knowledgeIndex]);
+
+  const handleSaveKnowledge = useCallback(async (next: KnowledgeDocument[]) => {
+    setShowKnowledge(false);
+    const kept = new Set(next.map(d => d.id));
+    const existing = new Set(knowledgeDocuments.map(d => d.id));
+    try {
+      await Promise.all([
+        ...knowledgeDocuments.filter(d => !kept.has(d.id)).map(d => deleteKnowledgeDocument(d.id)),
+        ...next.filter(d => !existing.has(d.id)).map(saveKnowledgeDocument),
+      ]);
+      setKnowledgeDocuments(next);
+    } catch (err) {
+      console.error('Failed to save knowledge base', err);
+      setError('The knowledge base could not be saved.');
     }
-  }, [isRecording]);
+  }, [knowledgeDocuments]);
+
+  const handleSaveCategories = useCallback((next: IntentCategory[]) => {
+    saveCategories(next);
+    setCategories(next);
+    setShowTaxonomy(false);
+  }, []);
+
+  // Renames apply to whichever session is on screen
+  const handleRenameSpeaker = useCallback((speaker: string, name: string) => {
+    if (!viewedSession) {
+      setSpeakerNames(names => ({ ...names, [speaker]: name }));
+      return;
+    }
+    const updated = { ...viewedSession, speakerNames: { ...viewedSession.speakerNames, [speaker]: name } };
+    setViewedSession(updated);
+    saveSession(updated)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error('Failed to save speaker names', err));
+  }, [viewedSession]);
+
+  const handleSelectSession = useCallback((session: MonitoringSession) => {
+    // The live session is already on screen
+    setViewedSession(session.id === liveSession?.id ? null : session);
+  }, [liveSession]);
+
+  const handleSessionDeleted = useCallback((id: string) => {
+    setViewedSession(v => (v?.id === id ? null : v));
+  }, []);
+
+  const handleSegmentClick = useCallback((segment: TranscriptSegment) => {
+    setSeekRequest({ timestamp: segment.timestamp });
+  }, []);
+
+  const isViewingHistory = viewedSession !== null;
+  const shownHistory = viewedSession ? viewedSession.transcript : transcriptHistory;
+  const shownCurrent = viewedSession ? null : currentSegment;
+  const shownIntents = viewedSession ? viewedSession.intents : intents;
+  const shownAlerts = viewedSession ? viewedSession.alerts ?? [] : alerts;
+  const shownSpeakerNames = viewedSession ? viewedSession.speakerNames ?? {} : speakerNames;
+  const integrationProblem = Object.values(sinkStatuses).find(s => s?.lastError)?.lastError
+    ?? (sinkStatuses.webhook?.queued ? `${sinkStatuses.webhook.queued} webhook event(s) queued` : null);
+  const shownTranslation = viewedSession ? viewedSession.translation : liveSession?.translation;
+  // The report panel is for finished sessions, live or stored
+  const reportSession: MonitoringSession | null = viewedSession
+    ?? (liveSession?.endedAt && transcriptHistory.length > 0
+      ? { ...liveSession, transcript: transcriptHistory, intents, speakerNames, alerts }
+      : null);
+  const shownReportJob = reportSession && reportJob?.sessionId === reportSession.id ? reportJob : null;
+  // The recording is only playable once its run has ended
+  const shownAudio = viewedSession ? viewedAudio : isRecording ? null : liveAudio;
+  const activeSegmentId = shownAudio && playhead !== null ? segmentAt(shownHistory, playhead)?.id ?? null : null;
+  // Intents are reported after the words; play from the start of the turn they came from
+  const handleIntentClick = (intent: DetectedIntent) => {
+    setSeekRequest({ timestamp: segmentAt(shownHistory, intent.timestamp)?.timestamp ?? intent.timestamp });
+  };
+  const shownSpeakers = collectSpeakers([...shownHistory, ...(shownCurrent ? [shownCurrent] : []), ...shownIntents]);
+  // What the Export menu acts on: the stored session being viewed, or the current run
+  const exportableSession: MonitoringSession | null = viewedSession
+    ?? (liveSession && (transcriptHistory.length > 0 || intents.length > 0)
+      ? { ...liveSession, transcript: transcriptHistory, intents, speakerNames, alerts }
+      : null);
 
   return (
     <div className="min-h-screen bg-black text-zinc-100 flex flex-col font-sans selection:bg-cyan-500/30">
@@ -90,6 +701,17 @@ const App: React.FC = () => {
       {/* Header */}
       <header className="h-16 border-b border-zinc-800 flex items-center justify-between px-6 bg-zinc-900/80 backdrop-blur-md sticky top-0 z-50">
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            className={`p-2 rounded-lg border transition-colors ${
+              showHistory ? 'bg-zinc-800 border-zinc-600 text-zinc-100' : 'border-zinc-800 text-zinc-400 hover:text-zinc-200 hover:border-zinc-600'
+            }`}
+            aria-label="Toggle session history"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
           <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-cyan-500 to-blue-600 flex items-center justify-center shadow-lg shadow-cyan-500/20">
             <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
@@ -101,6 +723,130 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowTaxonomy(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+            Categories
+          </button>
+
+          <button
+            onClick={() => setShowWatchlist(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+            Watchlist
+            {watchlist.terms.length > 0 && (
+              <span className="text-xs bg-zinc-700 text-zinc-300 px-1.5 rounded-full">{watchlist.terms.length}</span>
+            )}
+          </button>
+
+          <button
+            onClick={() => setShowKnowledge(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+            </svg>
+            Knowledge
+            {knowledgeDocuments.length > 0 && (
+              <span className="text-xs bg-zinc-700 text-zinc-300 px-1.5 rounded-full">{knowledgeDocuments.length}</span>
+            )}
+          </button>
+
+          <button
+            onClick={() => setShowSettings(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+            Settings
+          </button>
+
+          <button
+            onClick={() => setShowIntegrations(true)}
+            className="relative flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+            Integrations
+            {integrationProblem && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-amber-400" title={integrationProblem} />}
+          </button>
+
+          <VoiceGateMenu settings={vadSettings} modeLocked={isRecording} onChange={setVadSettings} />
+
+          <PlaybackMenu
+            settings={playback}
+            voice={liveConfig.voice}
+            locked={isRecording}
+            playing={answerPlaying}
+            onChange={setPlayback}
+            onVoiceChange={voice => applyLiveConfig({ ...liveConfig, voice })}
+            onStop={() => manager.stopPlayback()}
+          />
+
+          <SpeakerMenu
+            settings={diarization}
+            locked={isRecording}
+            speakers={shownSpeakers}
+            names={shownSpeakerNames}
+            onChange={setDiarization}
+            onRename={handleRenameSpeaker}
+          />
+
+          <DevToolsMenu
+            mode={transportMode}
+            fixtureName={fixture.name}
+            recordEnabled={recordEnabled}
+            recordedEvents={recorder ? recorder.eventCount : null}
+            relayAccessKey={relayAccessKey}
+            locked={isRecording}
+            onModeChange={setTransportMode}
+            onLoadFixture={handleLoadFixture}
+            onRecordChange={setRecordEnabled}
+            onDownloadRecording={() => recorder && downloadFixture(recorder.toFixture())}
+            onRelayAccessKeyChange={handleRelayAccessKeyChange}
+          />
+
+          {exportableSession && <ExportMenu session={exportableSession} />}
+
+          {inputWarning && (
+            <div className={`text-xs px-3 py-1 rounded-full border ${
+              inputHealth === 'clipping' ? 'text-red-400 bg-red-400/10 border-red-400/20' : 'text-amber-400 bg-amber-400/10 border-amber-400/20'
+            }`}>
+              {inputWarning}
+            </div>
+          )}
+
+          {connectionBadge && (
+            <div className={`text-xs font-mono uppercase tracking-wider px-3 py-1 rounded-full border ${connectionBadge.className}`}>
+              {connectionBadge.label}
+            </div>
+          )}
+
+          {holdBadge && (
+            <div className={`text-xs font-mono uppercase tracking-wider px-3 py-1 rounded-full border ${holdBadge.className}`}>
+              {holdBadge.label}
+            </div>
+          )}
+
+          {isRecording && audioHold === 'live' && vadSettings.mode !== 'off' && (
+            <div className={`text-xs font-mono uppercase tracking-wider px-3 py-1 rounded-full border ${
+              speaking ? 'text-green-400 bg-green-400/10 border-green-400/20' : 'text-zinc-500 bg-zinc-800/50 border-zinc-700'
+            }`}>
+              {speaking ? 'Sending' : vadSettings.mode === 'pushToTalk' ? `Hold ${vadSettings.pushToTalkKey} to talk` : 'Gated'}
+            </div>
+          )}
+
           {error && (
             <div className="text-red-400 text-sm flex items-center gap-2 px-3 py-1 rounded-full bg-red-400/10 border border-red-400/20">
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -110,6 +856,59 @@ const App: React.FC = () => {
             </div>
           )}
           
+          <InputSourcePicker
+            kind={sourceKind}
+            file={sourceFile}
+            speed={fileSpeed}
+            disabled={isRecording}
+            onKindChange={setSourceKind}
+            onFileChange={setSourceFile}
+            onSpeedChange={setFileSpeed}
+            keepAudio={recordAudio}
+            onKeepAudioChange={setRecordAudio}
+          />
+
+          {sourceKind === 'microphone' && (
+            <MicrophoneMenu
+              settings={micSettings}
+              devices={microphones}
+              onChange={handleMicSettingsChange}
+              onOpen={refreshMicrophones}
+            />
+          )}
+
+          {isRecording && (
+            <div className="flex items-center rounded-full border border-zinc-700 overflow-hidden text-sm">
+              <button
+                onClick={() => toggleHold('paused')}
+                title="Stop capturing and sending; the session stays open (P)"
+                className={`flex items-center gap-1.5 px-3 py-1.5 transition-colors ${
+                  audioHold === 'paused' ? 'bg-amber-500/20 text-amber-300' : 'text-zinc-300 hover:bg-zinc-800'
+                }`}
+              >
+                {audioHold === 'paused' ? (
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+                ) : (
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+                )}
+                {audioHold === 'paused' ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={() => toggleHold('muted')}
+                title="Keep the meter running but send nothing (M)"
+                className={`flex items-center gap-1.5 px-3 py-1.5 border-l border-zinc-700 transition-colors ${
+                  audioHold === 'muted' ? 'bg-red-500/20 text-red-300' : 'text-zinc-300 hover:bg-zinc-800'
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                  {audioHold === 'muted' && <path strokeLinecap="round" strokeWidth={2} d="M4 4l16 16" />}
+                </svg>
+                {audioHold === 'muted' ? 'Unmute' : 'Mute'}
+              </button>
+            </div>
+          )}
+
           <button
             onClick={toggleRecording}
             className={`
@@ -141,33 +940,137 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {showWatchlist && (
+        <WatchlistEditor
+          settings={watchlist}
+          onSave={handleSaveWatchlist}
+          onClose={() => setShowWatchlist(false)}
+        />
+      )}
+
+      {showKnowledge && (
+        <KnowledgeBasePanel
+          documents={knowledgeDocuments}
+          running={isRecording}
+          onSave={handleSaveKnowledge}
+          onClose={() => setShowKnowledge(false)}
+        />
+      )}
+
+      {showTaxonomy && (
+        <TaxonomyEditor
+          categories={categories}
+          locked={isRecording}
+          onSave={handleSaveCategories}
+          onClose={() => setShowTaxonomy(false)}
+        />
+      )}
+
+      {showIntegrations && (
+        <IntegrationsPanel
+          settings={integrationSettings}
+          statuses={sinkStatuses}
+          onSave={handleSaveIntegrations}
+          onClose={() => setShowIntegrations(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          config={liveConfig}
+          availableCommands={manager.commandNames}
+          locked={isRecording}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showHistory && (
+        <SessionHistory
+          version={historyVersion}
+          liveSessionId={isRecording ? liveSession?.id ?? null : null}
+          selectedId={viewedSession?.id ?? null}
+          onSelect={handleSelectSession}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Read-only banner when browsing a stored session */}
+      {isViewingHistory && (
+        <div className="max-w-7xl mx-auto w-full px-4 md:px-6 pt-4">
+          <div className="flex items-center justify-between px-4 py-2 rounded-xl bg-zinc-800/50 border border-zinc-700 text-sm">
+            <span className="text-zinc-400">
+              Viewing session from{' '}
+              <span className="text-zinc-200">{new Date(viewedSession.startedAt).toLocaleString()}</span>
+              {' '}(read-only)
+            </span>
+            <button onClick={() => setViewedSession(null)} className="text-cyan-400 hover:text-cyan-300 font-medium">
+              {isRecording ? 'Back to live' : 'Close'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 p-4 md:p-6 grid grid-cols-1 lg:grid-cols-12 gap-6 overflow-hidden max-w-7xl mx-auto w-full">
         
         {/* Left Panel: Transcript (7 cols) */}
         <section className="lg:col-span-7 h-[60vh] lg:h-auto flex flex-col gap-4">
-          <TranscriptLog history={transcriptHistory} current={currentTranscript} />
+          {shownAudio && (
+            <SessionAudioPlayer key={shownAudio.sessionId} audio={shownAudio} seekRequest={seekRequest} onPlayhead={setPlayhead} />
+          )}
+          <TranscriptLog
+            history={shownHistory}
+            watchTerms={compiledWatchTerms}
+            current={shownCurrent}
+            speakerNames={shownSpeakerNames}
+            translation={shownTranslation}
+            activeSegmentId={activeSegmentId}
+            onSegmentClick={shownAudio ? handleSegmentClick : undefined}
+            live={!isViewingHistory}
+          />
           
           {/* Visualizer Area */}
           <div className="hidden lg:block">
              <div className="flex items-center justify-between mb-2 px-1">
-                <span className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Microphone Input</span>
-                <span className={`text-xs uppercase font-mono ${isRecording ? 'text-green-400' : 'text-zinc-600'}`}>
-                  {isRecording ? 'ACTIVE' : 'IDLE'}
+                <span className="text-xs text-zinc-500 uppercase tracking-widest font-semibold truncate">{inputLabel} Input</span>
+                <span className={`text-xs uppercase font-mono ${isRecording && !inputEnded ? (audioHold === 'live' ? 'text-green-400' : 'text-amber-400') : 'text-zinc-600'}`}>
+                  {isRecording ? (inputEnded ? 'ENDED' : audioHold === 'live' ? 'ACTIVE' : audioHold.toUpperCase()) : 'IDLE'}
                 </span>
              </div>
-             <Visualizer volume={volume} active={isRecording} />
+             <Visualizer analyser={analyser} active={isRecording} />
           </div>
         </section>
 
         {/* Right Panel: Intelligence/Analysis (5 cols) */}
-        <section className="lg:col-span-5 h-[40vh] lg:h-auto flex flex-col">
-          <IntentPanel intents={intents} />
+        <section className="lg:col-span-5 h-[40vh] lg:h-auto flex flex-col gap-4">
+          {reportSession && (
+            <ReportPanel
+              key={reportSession.id}
+              report={reportSession.report}
+              generating={shownReportJob?.generating ?? false}
+              error={shownReportJob?.error ?? null}
+              onGenerate={() => requestReport(reportSession)}
+              onChange={report => attachReport(reportSession, report)}
+            />
+          )}
+          <div className="flex-1 min-h-0">
+            <IntentPanel
+              intents={shownIntents}
+              alerts={shownAlerts}
+              categories={categories}
+              speakerNames={shownSpeakerNames}
+              onIntentClick={shownAudio ? handleIntentClick : undefined}
+              live={!isViewingHistory}
+            />
+          </div>
+          {!isViewingHistory && <DiagnosticsPanel metrics={metrics} onDownload={handleDownloadDiagnostics} />}
         </section>
         
         {/* Mobile Visualizer (visible only on small screens) */}
         <div className="lg:hidden block h-16">
-           <Visualizer volume={volume} active={isRecording} />
+           <Visualizer analyser={analyser} active={isRecording} />
         </div>
 
       </main>
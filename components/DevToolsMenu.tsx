@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export type TransportMode = 'gemini' | 'replay';
+
+interface DevToolsMenuProps {
+  mode: TransportMode;
+  fixtureName: string;
+  recordEnabled: boolean;
+  recordedEvents: number | null;
+  relayAccessKey: string;
+  // Transport settings only apply when a run starts
+  locked: boolean;
+  onModeChange: (mode: TransportMode) => void;
+  onLoadFixture: (file: File) => void;
+  onRecordChange: (enabled: boolean) => void;
+  onDownloadRecording: () => void;
+  onRelayAccessKeyChange: (key: string) => void;
+}
+
+export const DevToolsMenu: React.FC<DevToolsMenuProps> = ({
+  mode,
+  fixtureName,
+  recordEnabled,
+  recordedEvents,
+  relayAccessKey,
+  locked,
+  onModeChange,
+  onLoadFixture,
+  onRecordChange,
+  onDownloadRecording,
+  onRelayAccessKeyChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadFixture(file);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+          mode === 'replay'
+            ? 'border-purple-500/50 text-purple-300 bg-purple-500/10'
+            : 'border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:text-zinc-100'
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+        </svg>
+        {mode === 'replay' ? 'Replay' : 'Dev'}
+        {recordEnabled && <span className="w-2 h-2 rounded-full bg-red-500" />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl z-50 p-4 space-y-4 text-sm">
+          {locked && (
+            <p className="text-xs text-amber-400">Stop monitoring to change the transport.</p>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Transport</div>
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input type="radio" checked={mode === 'gemini'} disabled={locked} onChange={() => onModeChange('gemini')} />
+              Gemini Live (via relay)
+            </label>
+            {mode === 'gemini' && (
+              <div className="pl-6 space-y-1">
+                <input
+                  type="password"
+                  value={relayAccessKey}
+                  onChange={e => onRelayAccessKeyChange(e.target.value.trim())}
+                  placeholder="Relay access key (if required)"
+                  className="w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-cyan-500"
+                />
+                <p className="text-[10px] text-zinc-500">The relay server holds the API key; this only identifies you to it.</p>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input type="radio" checked={mode === 'replay'} disabled={locked} onChange={() => onModeChange('replay')} />
+              Replay fixture (offline)
+            </label>
+            {mode === 'replay' && (
+              <div className="flex items-center justify-between gap-2 pl-6">
+                <span className="text-xs text-zinc-400 truncate">{fixtureName}</span>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={locked}
+                  className="text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-50 shrink-0"
+                >
+                  Load…
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-zinc-800">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Fixture recording</div>
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input type="checkbox" checked={recordEnabled} disabled={locked} onChange={e => onRecordChange(e.target.checked)} />
+              Record server messages
+            </label>
+            {recordedEvents !== null && (
+              <button
+                onClick={onDownloadRecording}
+                disabled={recordedEvents === 0}
+                className="w-full text-left text-xs text-cyan-400 hover:text-cyan-300 disabled:text-zinc-600"
+              >
+                Download fixture ({recordedEvents} events)
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
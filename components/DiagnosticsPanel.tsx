@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { LatencyStats, LiveMetrics } from '../types';
+
+interface DiagnosticsPanelProps {
+  metrics: LiveMetrics | null;
+  onDownload: () => void;
+}
+
+const headingClass = 'text-[10px] text-zinc-500 uppercase tracking-widest font-semibold';
+
+const formatMs = (ms: number | null) => (ms === null ? '–' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const Sparkline: React.FC<{ values: number[]; className: string }> = ({ values, className }) => {
+  const width = 120;
+  const height = 24;
+  if (values.length < 2) return <div className="h-6" />;
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values.map((v, i) => `${(i * step).toFixed(1)},${(height - 1 - (v / max) * (height - 2)).toFixed(1)}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className={`w-full h-6 ${className}`}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const LatencyTile: React.FC<{ title: string; stats: LatencyStats }> = ({ title, stats }) => (
+  <div className="space-y-1">
+    <div className={headingClass}>{title}</div>
+    <div className="text-sm text-zinc-200 font-mono">
+      {formatMs(stats.avgMs)} <span className="text-xs text-zinc-500">avg</span>{' '}
+      {formatMs(stats.p95Ms)} <span className="text-xs text-zinc-500">p95</span>
+    </div>
+    <Sparkline values={stats.recent} className="text-cyan-400" />
+    <div className="text-[10px] text-zinc-600">{stats.count} samples · max {formatMs(stats.maxMs)}</div>
+  </div>
+);
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ metrics, onDownload }) => {
+  const [open, setOpen] = useState(false);
+  const lastSecondBytes = metrics?.audioBytesPerSecond.at(-1) ?? 0;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden shadow-lg shrink-0">
+      <div className="bg-zinc-800/50 px-6 py-3 flex items-center justify-between gap-3">
+        <button onClick={() => setOpen(v => !v)} className="flex items-center gap-2 text-sm font-semibold text-zinc-300 uppercase tracking-wider">
+          <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9 5l7 7-7 7" />
+          </svg>
+          Diagnostics
+        </button>
+        <div className="flex items-center gap-3 text-xs">
+          {metrics && !open && (
+            <span className="text-zinc-500 font-mono truncate">
+              {formatMs(metrics.speechToTranscript.avgMs)} to transcript · {formatBytes(lastSecondBytes)}/s
+            </span>
+          )}
+          <button onClick={onDownload} className="text-cyan-400 hover:text-cyan-300 shrink-0">
+            Download bundle
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="p-4 border-t border-zinc-700 max-h-80 overflow-y-auto">
+          {!metrics ? (
+            <p className="text-sm text-zinc-600 italic">Metrics appear once monitoring starts.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <LatencyTile title="Speech → transcript" stats={metrics.speechToTranscript} />
+                <LatencyTile title="Speech → intent" stats={metrics.speechToIntent} />
+                <LatencyTile title="Tool round trip" stats={metrics.toolRoundTrip} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 pt-3 border-t border-zinc-800">
+                <div className="space-y-1">
+                  <div className={headingClass}>Audio sent</div>
+                  <div className="text-sm text-zinc-200 font-mono">{formatBytes(lastSecondBytes)}/s</div>
+                  <Sparkline values={metrics.audioBytesPerSecond} className="text-green-400" />
+                  <div className="text-[10px] text-zinc-600">
+                    {formatBytes(metrics.audio.bytesSent)} in {metrics.audio.framesSent} frames
+                    {metrics.audio.framesDropped > 0 && (
+                      <span className="text-amber-400"> · {metrics.audio.framesDropped} dropped</span>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className={headingClass}>Server messages</div>
+                  <div className="text-sm text-zinc-200 font-mono">{metrics.messagesPerSecond.at(-1) ?? 0}/s</div>
+                  <Sparkline values={metrics.messagesPerSecond} className="text-purple-400" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 pt-3 border-t border-zinc-800 text-xs">
+                <div className="space-y-1">
+                  <div className={headingClass}>Connection</div>
+                  <div className="text-zinc-300">{Math.max(0, metrics.connections - 1)} reconnects</div>
+                  <div className="text-zinc-500">{metrics.reconnectAttempts} attempts · {metrics.goAways} GoAway</div>
+                </div>
+                <div className="space-y-1">
+                  <div className={headingClass}>Tokens</div>
+                  <div className="text-zinc-300 font-mono">{metrics.tokens.total.toLocaleString()} total</div>
+                  <div className="text-zinc-500">
+                    {metrics.tokens.prompt.toLocaleString()} in · {metrics.tokens.response.toLocaleString()} out
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className={headingClass}>Tool calls</div>
+                  {Object.keys(metrics.toolCalls).length === 0 && <div className="text-zinc-600">None</div>}
+                  {Object.entries(metrics.toolCalls).map(([name, count]) => (
+                    <div key={name} className="flex justify-between text-zinc-400">
+                      <code className="truncate">{name}</code>
+                      <span className="font-mono">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="pt-3 border-t border-zinc-800 text-xs">
+                <div className={`${headingClass} mb-1`}>Message types</div>
+                <div className="grid grid-cols-2 gap-x-4">
+                  {Object.entries(metrics.messages).map(([kind, count]) => (
+                    <div key={kind} className="flex justify-between text-zinc-400">
+                      <code className="truncate">{kind}</code>
+                      <span className="font-mono">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {metrics.events.length > 0 && (
+                <div className="pt-3 border-t border-zinc-800 text-xs">
+                  <div className={`${headingClass} mb-1`}>Connection log</div>
+                  <ul className="space-y-0.5 font-mono">
+                    {metrics.events.slice(-8).map((event, i) => (
+                      <li key={i} className={event.kind === 'error' ? 'text-red-400' : 'text-zinc-400'}>
+                        {new Date(event.at).toLocaleTimeString()} {event.kind}{event.detail && ` · ${event.detail}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
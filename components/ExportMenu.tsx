@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MonitoringSession } from '../types';
+import { downloadSession, EXPORT_FORMATS, ExportFormat } from '../services/sessionExport';
+
+interface ExportMenuProps {
+  session: MonitoringSession;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ session }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadSession(session, format);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl overflow-hidden z-50">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-zinc-100 flex items-center justify-between"
+            >
+              {EXPORT_FORMATS[format].label}
+              <span className="text-xs font-mono text-zinc-500">.{EXPORT_FORMATS[format].extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
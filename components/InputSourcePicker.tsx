@@ -0,0 +1,94 @@
+import React, { useRef } from 'react';
+import { InputSourceKind } from '../services/inputSources';
+
+export const FILE_SPEEDS = [1, 2, 4];
+
+interface InputSourcePickerProps {
+  kind: InputSourceKind;
+  file: File | null;
+  speed: number;
+  // Keep a local recording of the input with the session
+  keepAudio: boolean;
+  disabled: boolean;
+  onKindChange: (kind: InputSourceKind) => void;
+  onFileChange: (file: File) => void;
+  onSpeedChange: (speed: number) => void;
+  onKeepAudioChange: (keep: boolean) => void;
+}
+
+const selectClass = 'bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm text-zinc-300 focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+
+export const InputSourcePicker: React.FC<InputSourcePickerProps> = ({
+  kind,
+  file,
+  speed,
+  keepAudio,
+  disabled,
+  onKindChange,
+  onFileChange,
+  onSpeedChange,
+  onKeepAudioChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (selected) onFileChange(selected);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        className={selectClass}
+        value={kind}
+        disabled={disabled}
+        onChange={e => onKindChange(e.target.value as InputSourceKind)}
+        aria-label="Input source"
+      >
+        <option value="microphone">Microphone</option>
+        <option value="display">Tab / system audio</option>
+        <option value="file">Audio file</option>
+      </select>
+
+      {kind === 'file' && (
+        <>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="max-w-[10rem] truncate px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 disabled:opacity-50"
+            title={file?.name}
+          >
+            {file ? file.name : 'Choose file…'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/wav,audio/mpeg,audio/webm,.wav,.mp3,.webm"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <select
+            className={selectClass}
+            value={speed}
+            disabled={disabled}
+            onChange={e => onSpeedChange(Number(e.target.value))}
+            aria-label="Playback speed"
+          >
+            {FILE_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+        </>
+      )}
+
+      <label className="flex items-center gap-1.5 text-sm text-zinc-400 shrink-0" title="Store the captured audio with the session">
+        <input
+          type="checkbox"
+          checked={keepAudio}
+          disabled={disabled}
+          onChange={e => onKeepAudioChange(e.target.checked)}
+        />
+        Keep audio
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { IntegrationSettings, IntegrationSinkKind } from '../types';
+import {
+  INTEGRATION_EVENT_TYPES,
+  POST_MESSAGE_SOURCE,
+  sendTestEvent,
+  SinkStatus,
+  validateIntegrationSettings,
+} from '../services/integrations';
+
+interface IntegrationsPanelProps {
+  settings: IntegrationSettings;
+  statuses: Partial<Record<IntegrationSinkKind, SinkStatus>>;
+  onSave: (settings: IntegrationSettings) => void;
+  onClose: () => void;
+}
+
+type TestResult = 'sending' | 'sent' | { error: string };
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+const labelClass = 'block text-xs text-zinc-500 uppercase tracking-widest font-semibold mb-1.5';
+
+const SinkStatusLine: React.FC<{ status?: SinkStatus; test?: TestResult }> = ({ status, test }) => {
+  if (test === 'sending') return <p className="text-xs text-zinc-500 animate-pulse">Sending test event…</p>;
+  if (test === 'sent') return <p className="text-xs text-green-400">Test event sent.</p>;
+  if (test) return <p className="text-xs text-red-400">Test failed: {test.error}</p>;
+  if (!status) return null;
+  return (
+    <p className="text-xs text-zinc-500">
+      {status.lastDeliveredAt && `Last delivered ${new Date(status.lastDeliveredAt).toLocaleTimeString()}. `}
+      {!!status.queued && <span className="text-amber-400">{status.queued} queued. </span>}
+      {status.lastError && <span className="text-red-400">Last error: {status.lastError}</span>}
+    </p>
+  );
+};
+
+export const IntegrationsPanel: React.FC<IntegrationsPanelProps> = ({ settings, statuses, onSave, onClose }) => {
+  const [draft, setDraft] = useState<IntegrationSettings>(settings);
+  const [tests, setTests] = useState<Partial<Record<IntegrationSinkKind, TestResult>>>({});
+  const problems = validateIntegrationSettings(draft);
+
+  const update = <K extends IntegrationSinkKind>(kind: K, patch: Partial<IntegrationSettings[K]>) => {
+    setDraft(prev => ({ ...prev, [kind]: { ...prev[kind], ...patch } }));
+    setTests(prev => ({ ...prev, [kind]: undefined }));
+  };
+
+  const toggleEvent = (type: IntegrationSettings['events'][number], enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      events: enabled ? [...prev.events, type] : prev.events.filter(t => t !== type),
+    }));
+  };
+
+  // Tests use the values on screen, so a sink can be checked before saving
+  const test = async (kind: IntegrationSinkKind) => {
+    setTests(prev => ({ ...prev, [kind]: 'sending' }));
+    try {
+      await sendTestEvent(kind, draft);
+      setTests(prev => ({ ...prev, [kind]: 'sent' }));
+    } catch (err) {
+      setTests(prev => ({ ...prev, [kind]: { error: err instanceof Error ? err.message : String(err) } }));
+    }
+  };
+
+  const testButton = (kind: IntegrationSinkKind, disabled = false) => (
+    <button
+      onClick={() => test(kind)}
+      disabled={disabled || tests[kind] === 'sending'}
+      className="px-3 py-1.5 rounded-lg text-sm border border-zinc-700 text-zinc-300 hover:border-zinc-500 disabled:opacity-40 shrink-0"
+    >
+      Send test
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Integrations</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div>
+            <span className={labelClass}>Events to publish</span>
+            <div className="grid grid-cols-2 gap-2">
+              {INTEGRATION_EVENT_TYPES.map(({ type, label }) => (
+                <label key={type} className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.events.includes(type)}
+                    onChange={e => toggleEvent(type, e.target.checked)}
+                  />
+                  {label}
+                  <code className="text-[10px] text-zinc-600">{type}</code>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-zinc-800">
+            <label className="flex items-center gap-2 text-sm font-semibold text-zinc-200">
+              <input type="checkbox" checked={draft.webhook.enabled} onChange={e => update('webhook', { enabled: e.target.checked })} />
+              HTTP webhook
+            </label>
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} flex-1 font-mono`}
+                placeholder="https://example.com/hooks/monitor"
+                value={draft.webhook.url}
+                onChange={e => update('webhook', { url: e.target.value })}
+              />
+              {testButton('webhook', !draft.webhook.url.trim())}
+            </div>
+            <input
+              className={`${inputClass} w-full font-mono`}
+              type="password"
+              placeholder="Shared secret, sent as X-Webhook-Secret (optional)"
+              value={draft.webhook.secret}
+              onChange={e => update('webhook', { secret: e.target.value })}
+            />
+            <p className="text-xs text-zinc-500">
+              Each event is POSTed as JSON. Failed deliveries are retried, and kept in a queue while offline.
+              The endpoint must allow cross-origin requests from this page.
+            </p>
+            <SinkStatusLine status={statuses.webhook} test={tests.webhook} />
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-zinc-800">
+            <label className="flex items-center gap-2 text-sm font-semibold text-zinc-200">
+              <input type="checkbox" checked={draft.postMessage.enabled} onChange={e => update('postMessage', { enabled: e.target.checked })} />
+              Host page (postMessage)
+            </label>
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} flex-1 font-mono`}
+                placeholder="Target origin, or * for any"
+                value={draft.postMessage.targetOrigin}
+                onChange={e => update('postMessage', { targetOrigin: e.target.value })}
+              />
+              {testButton('postMessage')}
+            </div>
+            <p className="text-xs text-zinc-500">
+              When embedded, events go to <code>window.parent</code> as <code>{`{ source: '${POST_MESSAGE_SOURCE}', event }`}</code>.
+            </p>
+            <SinkStatusLine status={statuses.postMessage} test={tests.postMessage} />
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-zinc-800">
+            <label className="flex items-center gap-2 text-sm font-semibold text-zinc-200">
+              <input type="checkbox" checked={draft.broadcast.enabled} onChange={e => update('broadcast', { enabled: e.target.checked })} />
+              Other tabs (BroadcastChannel)
+            </label>
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} flex-1 font-mono`}
+                placeholder="Channel name"
+                value={draft.broadcast.channelName}
+                onChange={e => update('broadcast', { channelName: e.target.value })}
+              />
+              {testButton('broadcast', !draft.broadcast.channelName.trim())}
+            </div>
+            <SinkStatusLine status={statuses.broadcast} test={tests.broadcast} />
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-red-400 text-xs space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-zinc-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm text-zinc-300 hover:bg-zinc-800">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={problems.length > 0}
+            className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
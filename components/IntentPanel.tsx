@@ -1,16 +1,78 @@
 import React, { useEffect, useRef } from 'react';
-import { DetectedIntent, IntentType } from '../types';
+import { CommandStatus, DetectedIntent, IntentCategory, KnowledgeCitation, SpeakerNames, WatchAlert } from '../types';
+import { passageLabel } from '../services/knowledgeBase';
+import { getIntentStyle, IntentIconGlyph } from './intentStyles';
+import { SpeakerBadge } from './SpeakerBadge';
+import { WATCH_SEVERITY_CLASSES } from './watchStyles';
+
+const EXECUTION_STATUS_CLASSES: Record<CommandStatus, string> = {
+  running: 'text-cyan-400 bg-cyan-400/10 border-cyan-400/20 animate-pulse',
+  succeeded: 'text-green-400 bg-green-400/10 border-green-400/20',
+  failed: 'text-red-400 bg-red-400/10 border-red-400/20',
+};
 
 interface IntentPanelProps {
   intents: DetectedIntent[];
+  categories: IntentCategory[];
+  speakerNames?: SpeakerNames;
+  // Watchlist matches, listed among the intents in time order
+  alerts?: WatchAlert[];
+  // When set, cards are clickable (e.g. to seek the recording)
+  onIntentClick?: (intent: DetectedIntent) => void;
+  // False when showing a stored session read-only
+  live?: boolean;
 }
 
-export const IntentPanel: React.FC<IntentPanelProps> = ({ intents }) => {
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const WatchAlertCard: React.FC<{ alert: WatchAlert; speakerNames?: SpeakerNames }> = ({ alert, speakerNames }) => {
+  const classes = WATCH_SEVERITY_CLASSES[alert.severity];
+  return (
+    <div className={`px-4 py-2.5 rounded-xl border flex items-center gap-3 animate-in slide-in-from-bottom-2 fade-in ${classes.card}`}>
+      <div className={`p-1.5 rounded-lg shrink-0 ${classes.badge}`}>
+        <IntentIconGlyph icon="warning" className="w-4 h-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={`text-xs font-bold uppercase tracking-wider ${classes.text}`}>{alert.severity}</span>
+          <span className="text-xs text-zinc-500">{formatTime(alert.timestamp)}</span>
+          {alert.speaker && <SpeakerBadge speaker={alert.speaker} names={speakerNames} />}
+        </div>
+        <p className="text-sm text-zinc-300 truncate">
+          "{alert.match}" <span className="text-zinc-500">matched {alert.pattern}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const CitationList: React.FC<{ citations: KnowledgeCitation[] }> = ({ citations }) => (
+  <div className="mt-2 ml-7 space-y-1.5">
+    {citations.map(citation => (
+      <div key={citation.passageId} className="pl-3 border-l-2 border-cyan-500/30 text-xs" title={citation.text}>
+        <div className="flex items-center gap-1 text-cyan-400/80">
+          <svg className="w-3 h-3 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          <span className="truncate">{passageLabel(citation)}</span>
+        </div>
+        <p className="text-zinc-500 leading-relaxed line-clamp-3 whitespace-pre-line">{citation.text}</p>
+      </div>
+    ))}
+  </div>
+);
+
+export const IntentPanel: React.FC<IntentPanelProps> = ({ intents, categories, speakerNames, alerts = [], onIntentClick, live = true }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const entries: { timestamp: number; intent?: DetectedIntent; alert?: WatchAlert }[] = [
+    ...intents.map(intent => ({ timestamp: intent.timestamp, intent })),
+    ...alerts.map(alert => ({ timestamp: alert.timestamp, alert })),
+  ].sort((a, b) => a.timestamp - b.timestamp);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [intents]);
+  }, [intents, alerts]);
 
   return (
     <div className="flex flex-col h-full bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden shadow-lg relative">
@@ -19,54 +81,53 @@ export const IntentPanel: React.FC<IntentPanelProps> = ({ intents }) => {
 
       <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between z-10">
         <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Detected Intents</h2>
-        <span className="text-xs bg-zinc-700 text-zinc-400 px-2 py-1 rounded-full">{intents.length} detected</span>
+        <div className="flex items-center gap-2">
+          {alerts.length > 0 && (
+            <span className="text-xs bg-amber-500/20 text-amber-400 px-2 py-1 rounded-full">{alerts.length} alerts</span>
+          )}
+          <span className="text-xs bg-zinc-700 text-zinc-400 px-2 py-1 rounded-full">{intents.length} detected</span>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-3 z-10">
-        {intents.length === 0 && (
+        {entries.length === 0 && (
           <div className="flex flex-col items-center justify-center h-full text-zinc-600 gap-2">
             <svg className="w-12 h-12 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
             </svg>
-            <p className="text-sm italic">Listening for questions & commands...</p>
+            <p className="text-sm italic">{live ? 'Listening for intents...' : 'No intents were detected in this session.'}</p>
           </div>
         )}
 
-        {intents.map((intent) => (
+        {entries.map(({ intent, alert }) => {
+          if (alert) return <WatchAlertCard key={alert.id} alert={alert} speakerNames={speakerNames} />;
+          const { classes, icon } = getIntentStyle(intent.type, categories);
+          return (
           <div 
             key={intent.id} 
-            className={`p-4 rounded-xl border shadow-sm transition-all duration-500 animate-in slide-in-from-bottom-2 fade-in 
-              ${intent.type === IntentType.QUESTION 
-                ? 'bg-blue-950/30 border-blue-900/50 hover:border-blue-500/50' 
-                : 'bg-amber-950/30 border-amber-900/50 hover:border-amber-500/50'
-              }`}
+            onClick={onIntentClick && (() => onIntentClick(intent))}
+            className={`p-4 rounded-xl border shadow-sm transition-all duration-500 animate-in slide-in-from-bottom-2 fade-in ${classes.card} ${
+              onIntentClick ? 'cursor-pointer' : ''
+            }`}
           >
             <div className="flex items-start gap-3">
-              <div className={`p-2 rounded-lg shrink-0 ${
-                intent.type === IntentType.QUESTION ? 'bg-blue-500/20 text-blue-400' : 'bg-amber-500/20 text-amber-400'
-              }`}>
-                {intent.type === IntentType.QUESTION ? (
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                ) : (
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                  </svg>
-                )}
+              <div className={`p-2 rounded-lg shrink-0 ${classes.badge}`}>
+                <IntentIconGlyph icon={icon} />
               </div>
               <div className="flex-1">
                 <div className="flex items-center gap-2 mb-1">
-                  <span className={`text-xs font-bold uppercase tracking-wider ${
-                    intent.type === IntentType.QUESTION ? 'text-blue-400' : 'text-amber-400'
-                  }`}>
-                    {intent.type}
+                  <span className={`text-xs font-bold uppercase tracking-wider ${classes.label}`}>
+                    {intent.type.replace(/_/g, ' ')}
                   </span>
                   <span className="text-xs text-zinc-500">
-                    {new Date(intent.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second: '2-digit'})}
+                    {formatTime(intent.timestamp)}
                   </span>
+                  {intent.speaker && <SpeakerBadge speaker={intent.speaker} names={speakerNames} />}
                 </div>
                 <p className="text-zinc-200 font-medium leading-snug">"{intent.text}"</p>
+                {intent.originalText && (
+                  <p className="text-zinc-500 text-sm italic leading-snug mt-1" title="As spoken">"{intent.originalText}"</p>
+                )}
                 
                 {intent.answer && (
                   <div className="mt-3 pt-3 border-t border-white/5 animate-in fade-in duration-700">
@@ -78,12 +139,32 @@ export const IntentPanel: React.FC<IntentPanelProps> = ({ intents }) => {
                        </div>
                        <p className="text-zinc-400 text-sm leading-relaxed selection:bg-green-500/30 selection:text-green-100">{intent.answer}</p>
                     </div>
+                    {intent.citations && intent.citations.length > 0 && <CitationList citations={intent.citations} />}
+                  </div>
+                )}
+
+                {intent.execution && (
+                  <div className="mt-3 pt-3 border-t border-white/5 animate-in fade-in duration-700">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-mono text-zinc-300">{intent.execution.command}</span>
+                      <span className={`text-[10px] font-mono uppercase px-2 py-0.5 rounded-full border ${EXECUTION_STATUS_CLASSES[intent.execution.status]}`}>
+                        {intent.execution.status}
+                      </span>
+                    </div>
+                    {intent.execution.output && (
+                      <p className={`text-sm leading-relaxed whitespace-pre-line ${
+                        intent.execution.status === 'failed' ? 'text-red-300' : 'text-zinc-400'
+                      }`}>
+                        {intent.execution.output}
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
             </div>
           </div>
-        ))}
+          );
+        })}
         <div ref={bottomRef} />
       </div>
     </div>
@@ -0,0 +1,163 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { KnowledgeDocument } from '../types';
+import { KNOWLEDGE_FILE_EXTENSIONS, KnowledgeIndex, passageLabel, readKnowledgeFile } from '../services/knowledgeBase';
+
+interface KnowledgeBasePanelProps {
+  documents: KnowledgeDocument[];
+  // Searches pick up changes immediately, but a run that started with no
+  // documents only offers search from the next run
+  running: boolean;
+  onSave: (documents: KnowledgeDocument[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500';
+
+const formatSize = (text: string) => {
+  const kb = new Blob([text]).size / 1024;
+  return kb < 1024 ? `${Math.max(1, Math.round(kb))} kB` : `${(kb / 1024).toFixed(1)} MB`;
+};
+
+export const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({ documents, running, onSave, onClose }) => {
+  const [draft, setDraft] = useState<KnowledgeDocument[]>(documents);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const index = useMemo(() => new KnowledgeIndex(draft), [draft]);
+  const hits = useMemo(() => (query.trim() ? index.search(query, 3) : []), [index, query]);
+  const passageCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    index.passages.forEach(p => { counts[p.documentId] = (counts[p.documentId] ?? 0) + 1; });
+    return counts;
+  }, [index]);
+
+  // A file with the same name as an existing document replaces it
+  const addFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const results = await Promise.allSettled([...files].map(readKnowledgeFile));
+    const added = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+    setProblems(results.flatMap(r => (r.status === 'rejected' ? [r.reason instanceof Error ? r.reason.message : String(r.reason)] : [])));
+    setDraft(prev => [...prev.filter(d => !added.some(a => a.name === d.name)), ...added]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const removeDocument = (id: string) => {
+    setDraft(prev => prev.filter(d => d.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Knowledge Base</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-xs text-zinc-500">
+            Documents stay on this device. When someone asks a question, the model searches them and the answer
+            cites the passages it used. Add Markdown or plain text files; convert PDFs to text first.
+          </p>
+          {running && (
+            <p className="text-xs text-amber-400/80">
+              Changes apply to searches right away. If monitoring started with no documents, search is offered from the next run.
+            </p>
+          )}
+
+          {draft.length === 0 && (
+            <p className="text-sm text-zinc-600 italic">No documents yet.</p>
+          )}
+
+          <ul className="space-y-1">
+            {draft.map(doc => (
+              <li key={doc.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-zinc-800/40">
+                <span className="flex-1 min-w-0 text-sm text-zinc-200 truncate">{doc.name}</span>
+                <span className="text-xs text-zinc-500 shrink-0">
+                  {passageCounts[doc.id] ?? 0} passages · {formatSize(doc.text)}
+                </span>
+                <button
+                  onClick={() => removeDocument(doc.id)}
+                  className="text-zinc-500 hover:text-red-400"
+                  aria-label={`Remove ${doc.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={KNOWLEDGE_FILE_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={e => addFiles(e.target.files)}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 rounded-lg border border-dashed border-zinc-600 text-sm text-zinc-300 hover:border-zinc-400"
+          >
+            + Add files
+          </button>
+
+          {problems.length > 0 && (
+            <ul className="text-red-400 text-xs space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          {draft.length > 0 && (
+            <div className="pt-4 border-t border-zinc-800 space-y-2">
+              <input
+                className={`${inputClass} w-full`}
+                placeholder="Try a search, e.g. how do we roll back a deploy?"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+              />
+              {query.trim() && hits.length === 0 && (
+                <p className="text-xs text-zinc-600 italic">No matching passages.</p>
+              )}
+              {hits.map(({ passage }) => (
+                <div key={passage.id} className="px-3 py-2 rounded-lg border border-zinc-800 text-xs">
+                  <div className="text-cyan-400 mb-1">{passageLabel(passage)}</div>
+                  <p className="text-zinc-400 whitespace-pre-line line-clamp-4">{passage.text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between">
+          <button
+            onClick={() => setDraft([])}
+            className="text-sm text-zinc-400 hover:text-zinc-200"
+          >
+            Clear
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm text-zinc-300 hover:bg-zinc-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-cyan-500 text-black hover:bg-cyan-400"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
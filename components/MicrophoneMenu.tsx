@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MicrophoneSettings } from '../types';
+
+interface MicrophoneMenuProps {
+  settings: MicrophoneSettings;
+  devices: MediaDeviceInfo[];
+  // Changes apply immediately, switching the input of a running session
+  onChange: (settings: MicrophoneSettings) => void;
+  onOpen: () => void;
+}
+
+const PROCESSING_OPTIONS: { key: keyof Omit<MicrophoneSettings, 'deviceId'>; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+export const MicrophoneMenu: React.FC<MicrophoneMenuProps> = ({ settings, devices, onChange, onOpen }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) onOpen();
+    setOpen(v => !v);
+  };
+
+  // A remembered device that isn't plugged in falls back to the default
+  const selectedMissing = settings.deviceId !== null && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={toggle}
+        className="p-1.5 rounded-lg border border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+        aria-label="Microphone settings"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl z-50 p-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Device</div>
+            <select
+              className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-zinc-200 focus:outline-none focus:border-cyan-500"
+              value={settings.deviceId ?? ''}
+              onChange={e => onChange({ ...settings, deviceId: e.target.value || null })}
+            >
+              <option value="">System default</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+              ))}
+              {selectedMissing && <option value={settings.deviceId!}>Unplugged device</option>}
+            </select>
+            {selectedMissing && (
+              <p className="text-xs text-amber-400">The chosen device isn't connected; the default is used until it is.</p>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-zinc-800">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Processing</div>
+            {PROCESSING_OPTIONS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={e => onChange({ ...settings, [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
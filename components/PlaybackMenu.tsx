@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlaybackSettings } from '../types';
+import { PREBUILT_VOICES } from '../services/answerPlayback';
+
+interface PlaybackMenuProps {
+  settings: PlaybackSettings;
+  voice: string;
+  // Whether answers are spoken and in which voice is fixed for a running session
+  locked: boolean;
+  playing: boolean;
+  onChange: (settings: PlaybackSettings) => void;
+  onVoiceChange: (voice: string) => void;
+  onStop: () => void;
+}
+
+export const PlaybackMenu: React.FC<PlaybackMenuProps> = ({ settings, voice, locked, playing, onChange, onVoiceChange, onStop }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const update = (patch: Partial<PlaybackSettings>) => onChange({ ...settings, ...patch });
+  const silent = settings.muted || settings.volume === 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+          settings.speakAnswers
+            ? 'border-green-500/50 text-green-300 bg-green-500/10'
+            : 'border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:text-zinc-100'
+        }`}
+        aria-label="Spoken answers"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          {silent ? (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15zM17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" />
+          ) : (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+          )}
+        </svg>
+        Voice
+        {playing && <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl z-50 p-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Spoken answers</div>
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input
+                type="checkbox"
+                checked={settings.speakAnswers}
+                disabled={locked}
+                onChange={e => update({ speakAnswers: e.target.checked })}
+              />
+              Speak answers aloud
+            </label>
+            <label className="flex items-center justify-between gap-2 text-zinc-300">
+              <span className="text-xs text-zinc-400">Voice</span>
+              <select
+                value={voice}
+                disabled={locked}
+                onChange={e => onVoiceChange(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+              >
+                {PREBUILT_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            {locked && <p className="text-xs text-amber-400">Stop monitoring to change these.</p>}
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-zinc-800">
+            <div className="flex justify-between text-xs text-zinc-400">
+              <span>Volume</span>
+              <span className="font-mono text-zinc-300">{Math.round(settings.volume * 100)}%</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => update({ muted: !settings.muted })}
+                className={`px-2 py-1 rounded border text-xs ${
+                  settings.muted ? 'border-red-500/50 text-red-300 bg-red-500/10' : 'border-zinc-600 text-zinc-300 hover:border-zinc-400'
+                }`}
+              >
+                {settings.muted ? 'Unmute' : 'Mute'}
+              </button>
+              <input
+                type="range"
+                className="flex-1 accent-cyan-500"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.volume}
+                onChange={e => update({ volume: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          {playing && (
+            <button
+              onClick={onStop}
+              className="w-full px-3 py-1.5 rounded-lg border border-zinc-600 text-zinc-200 hover:border-zinc-400"
+            >
+              Stop speaking
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
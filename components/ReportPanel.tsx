@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { ActionItem, SessionReport } from '../types';
+
+interface ReportPanelProps {
+  report?: SessionReport;
+  generating: boolean;
+  error: string | null;
+  // Writes a new report, replacing the current one (edits included)
+  onGenerate: () => void;
+  onChange: (report: SessionReport) => void;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-700 rounded-lg px-2 py-1 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500';
+const headingClass = 'text-xs text-zinc-500 uppercase tracking-widest font-semibold mb-1';
+
+// Lists are edited one entry per line
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const ReportList: React.FC<{ title: string; items: string[] }> = ({ title, items }) => (
+  <div>
+    <div className={headingClass}>{title}</div>
+    {items.length === 0 ? (
+      <p className="text-sm text-zinc-600 italic">None</p>
+    ) : (
+      <ul className="text-sm text-zinc-300 space-y-1 list-disc list-inside">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+export const ReportPanel: React.FC<ReportPanelProps> = ({ report, generating, error, onGenerate, onChange }) => {
+  const [draft, setDraft] = useState<SessionReport | null>(null);
+
+  const updateItem = (index: number, patch: Partial<ActionItem>) => {
+    setDraft(d => d && {
+      ...d,
+      actionItems: d.actionItems.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    });
+  };
+
+  const save = () => {
+    if (!draft) return;
+    onChange({
+      ...draft,
+      summary: draft.summary.trim(),
+      actionItems: draft.actionItems
+        .map(item => ({ task: item.task.trim(), ...(item.owner?.trim() && { owner: item.owner.trim() }) }))
+        .filter(item => item.task),
+      edited: true,
+    });
+    setDraft(null);
+  };
+
+  const confirmRegenerate = () => {
+    if (report?.edited && !window.confirm('Regenerating replaces your edits to this report. Continue?')) return;
+    setDraft(null);
+    onGenerate();
+  };
+
+  return (
+    <div className="flex flex-col max-h-[50%] bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden shadow-lg">
+      <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Session Report</h2>
+        <div className="flex items-center gap-3 text-xs">
+          {draft ? (
+            <>
+              <button onClick={() => setDraft(null)} className="text-zinc-400 hover:text-zinc-200">Cancel</button>
+              <button onClick={save} className="text-cyan-400 hover:text-cyan-300 font-semibold">Save</button>
+            </>
+          ) : (
+            <>
+              {report && (
+                <button onClick={() => setDraft(report)} disabled={generating} className="text-zinc-400 hover:text-zinc-200 disabled:opacity-50">
+                  Edit
+                </button>
+              )}
+              <button onClick={confirmRegenerate} disabled={generating} className="text-cyan-400 hover:text-cyan-300 disabled:opacity-50">
+                {report ? 'Regenerate' : 'Generate'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {generating && <p className="text-sm text-zinc-500 animate-pulse">Writing the report…</p>}
+        {error && !generating && <p className="text-sm text-red-400">{error}</p>}
+        {!report && !generating && !error && (
+          <p className="text-sm text-zinc-600 italic">No report yet for this session.</p>
+        )}
+
+        {draft && (
+          <>
+            <label className="block">
+              <span className={headingClass}>Summary</span>
+              <textarea
+                className={`${inputClass} resize-y`}
+                rows={4}
+                value={draft.summary}
+                onChange={e => setDraft({ ...draft, summary: e.target.value })}
+              />
+            </label>
+            <label className="block">
+              <span className={headingClass}>Decisions (one per line)</span>
+              <textarea
+                className={`${inputClass} resize-y`}
+                rows={3}
+                defaultValue={toLines(draft.decisions)}
+                onChange={e => setDraft({ ...draft, decisions: fromLines(e.target.value) })}
+              />
+            </label>
+            <div>
+              <span className={headingClass}>Action items</span>
+              <div className="space-y-2">
+                {draft.actionItems.map((item, i) => (
+                  <div key={i} className="flex gap-2">
+                    <input className={inputClass} placeholder="Task" value={item.task} onChange={e => updateItem(i, { task: e.target.value })} />
+                    <input className={`${inputClass} w-32 shrink-0`} placeholder="Owner" value={item.owner ?? ''} onChange={e => updateItem(i, { owner: e.target.value })} />
+                    <button
+                      onClick={() => setDraft({ ...draft, actionItems: draft.actionItems.filter((_, j) => j !== i) })}
+                      className="text-zinc-500 hover:text-red-400 shrink-0"
+                      aria-label="Remove action item"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraft({ ...draft, actionItems: [...draft.actionItems, { task: '' }] })}
+                  className="text-xs text-cyan-400 hover:text-cyan-300"
+                >
+                  + Add action item
+                </button>
+              </div>
+            </div>
+            <label className="block">
+              <span className={headingClass}>Unanswered questions (one per line)</span>
+              <textarea
+                className={`${inputClass} resize-y`}
+                rows={3}
+                defaultValue={toLines(draft.openQuestions)}
+                onChange={e => setDraft({ ...draft, openQuestions: fromLines(e.target.value) })}
+              />
+            </label>
+          </>
+        )}
+
+        {report && !draft && !generating && (
+          <>
+            <div>
+              <div className={headingClass}>Summary</div>
+              <p className="text-sm text-zinc-200 leading-relaxed whitespace-pre-line">{report.summary}</p>
+            </div>
+            <ReportList title="Decisions" items={report.decisions} />
+            <div>
+              <div className={headingClass}>Action items</div>
+              {report.actionItems.length === 0 ? (
+                <p className="text-sm text-zinc-600 italic">None</p>
+              ) : (
+                <ul className="text-sm text-zinc-300 space-y-1">
+                  {report.actionItems.map((item, i) => (
+                    <li key={i} className="flex gap-2">
+                      <span className="text-zinc-600">☐</span>
+                      <span className="flex-1">{item.task}</span>
+                      {item.owner && <span className="text-xs text-cyan-400 shrink-0">{item.owner}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <ReportList title="Unanswered questions" items={report.openQuestions} />
+            <p className="text-[10px] text-zinc-600">
+              {report.model} · {new Date(report.generatedAt).toLocaleString()}{report.edited && ' · edited'}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
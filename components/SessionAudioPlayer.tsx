@@ -0,0 +1,76 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionAudio } from '../types';
+import { offsetToTimestamp, timestampToOffset } from '../services/audioRecorder';
+
+interface SessionAudioPlayerProps {
+  audio: SessionAudio;
+  // A new object (even for the same time) seeks and starts playback
+  seekRequest: { timestamp: number } | null;
+  // Wall-clock time of the audio under the playhead, or null when stopped
+  onPlayhead: (timestamp: number | null) => void;
+}
+
+export const SessionAudioPlayer: React.FC<SessionAudioPlayerProps> = ({ audio, seekRequest, onPlayhead }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  // Requests made before this recording was loaded don't apply to it
+  const handledSeek = useRef(seekRequest);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(audio.blob);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      onPlayhead(null);
+    };
+  }, [audio, onPlayhead]);
+
+  useEffect(() => {
+    const element = audioRef.current;
+    if (!seekRequest || seekRequest === handledSeek.current || !element) return;
+    handledSeek.current = seekRequest;
+    element.currentTime = timestampToOffset(audio, seekRequest.timestamp);
+    element.play().catch(err => console.warn('Playback was blocked', err));
+  }, [seekRequest, audio, url]);
+
+  const reportPlayhead = () => {
+    const element = audioRef.current;
+    if (!element) return;
+    onPlayhead(element.paused && element.currentTime === 0 ? null : offsetToTimestamp(audio, element.currentTime));
+  };
+
+  const download = () => {
+    if (!url) return;
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `session-${new Date(audio.frameTimestamps[0] ?? Date.now()).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.wav`;
+    link.click();
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-zinc-900 border border-zinc-800 rounded-2xl">
+      <span className="text-xs text-zinc-500 uppercase tracking-widest font-semibold shrink-0">Recording</span>
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          controls
+          className="flex-1 h-8"
+          onTimeUpdate={reportPlayhead}
+          onSeeked={reportPlayhead}
+          onEnded={() => onPlayhead(null)}
+        />
+      )}
+      <button
+        onClick={download}
+        className="text-zinc-500 hover:text-zinc-300 shrink-0"
+        aria-label="Download recording"
+        title="Download WAV"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MonitoringSession } from '../types';
+import { deleteSession, listSessions, saveSession } from '../services/sessionStore';
+import { parseSessionJson } from '../services/sessionExport';
+
+interface SessionHistoryProps {
+  // Changes whenever the stored sessions may have changed, to trigger a reload
+  version: number;
+  liveSessionId: string | null;
+  selectedId: string | null;
+  onSelect: (session: MonitoringSession) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+function formatDuration(session: MonitoringSession, isLive: boolean): string {
+  // Sessions without an end time that aren't live were cut off by a reload or crash
+  if (!session.endedAt) return isLive ? 'in progress' : 'interrupted';
+  const totalSeconds = Math.round((session.endedAt - session.startedAt) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({
+  version,
+  liveSessionId,
+  selectedId,
+  onSelect,
+  onDeleted,
+  onClose,
+}) => {
+  const [sessions, setSessions] = useState<MonitoringSession[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [importCount, setImportCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions()
+      .then(result => {
+        if (!cancelled) {
+          setSessions(result);
+          setLoadError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load sessions', err);
+        if (!cancelled) setLoadError('Could not load session history');
+      });
+    return () => { cancelled = true; };
+  }, [version, importCount]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = parseSessionJson(await file.text());
+      await saveSession(session);
+      setImportCount(c => c + 1);
+      onSelect(session);
+    } catch (err) {
+      console.error('Failed to import session', err);
+      setLoadError(err instanceof Error ? err.message : 'Could not import session');
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      onDeleted(id);
+    } catch (err) {
+      console.error('Failed to delete session', err);
+      setLoadError('Could not delete session');
+    }
+  };
+
+  return (
+    <aside className="fixed top-16 bottom-0 left-0 w-80 z-40 bg-zinc-900/95 backdrop-blur-md border-r border-zinc-800 flex flex-col shadow-2xl">
+      <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Session History</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs text-zinc-400 hover:text-zinc-200"
+            title="Import a JSON session export"
+          >
+            Import
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close history">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {loadError && (
+          <div className="text-red-400 text-xs px-3 py-2 rounded-lg bg-red-400/10 border border-red-400/20">{loadError}</div>
+        )}
+
+        {sessions.length === 0 && !loadError && (
+          <div className="text-zinc-600 italic text-sm text-center mt-10">No saved sessions yet.</div>
+        )}
+
+        {sessions.map((session) => {
+          const isLive = session.id === liveSessionId;
+          const isSelected = session.id === selectedId;
+          return (
+            <div
+              key={session.id}
+              onClick={() => onSelect(session)}
+              className={`group p-3 rounded-xl border cursor-pointer transition-colors ${
+                isSelected
+                  ? 'bg-cyan-950/40 border-cyan-700/50'
+                  : 'bg-zinc-800/30 border-zinc-800 hover:border-zinc-600'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-zinc-200 font-medium">
+                  {new Date(session.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                </span>
+                {isLive ? (
+                  <span className="text-[10px] font-mono uppercase text-green-400">Live</span>
+                ) : (
+                  <button
+                    onClick={(e) => handleDelete(e, session.id)}
+                    className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-opacity"
+                    aria-label="Delete session"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+              <div className="mt-1 text-xs text-zinc-500 flex gap-3">
+                <span>{formatDuration(session, isLive)}</span>
+                <span>{session.transcript.length} segments</span>
+                <span>{session.intents.length} intents</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
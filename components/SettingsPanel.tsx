@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_LIVE_CONFIG,
+  INPUT_SAMPLE_RATES,
+  LIVE_CONFIG_PRESETS,
+  LIVE_MODELS,
+  LiveManagerConfig,
+  validateLiveConfig,
+} from '../services/liveConfig';
+import { PREBUILT_VOICES } from '../services/answerPlayback';
+import { AUTO_DETECT, LANGUAGES } from '../services/translation';
+import { TranslationSettings } from '../types';
+
+interface SettingsPanelProps {
+  config: LiveManagerConfig;
+  // Commands registered with the manager, which the config can enable
+  availableCommands: string[];
+  // Settings are sent when a session starts, so editing is locked while monitoring
+  locked: boolean;
+  onSave: (config: LiveManagerConfig) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+const labelClass = 'block text-xs text-zinc-500 uppercase tracking-widest font-semibold mb-1.5';
+
+// Presets describe the kind of meeting; translation is kept when switching between them
+const sameConfig = (a: LiveManagerConfig, b: LiveManagerConfig) =>
+  a.model === b.model &&
+  a.voice === b.voice &&
+  a.inputSampleRate === b.inputSampleRate &&
+  a.systemInstruction.trim() === b.systemInstruction.trim() &&
+  a.commands.length === b.commands.length &&
+  a.commands.every(c => b.commands.includes(c));
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, availableCommands, locked, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LiveManagerConfig>(config);
+  const problems = validateLiveConfig(draft, availableCommands);
+  const activePreset = LIVE_CONFIG_PRESETS.find(p => sameConfig(p.config, draft));
+
+  const update = (patch: Partial<LiveManagerConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateTranslation = (patch: Partial<TranslationSettings>) =>
+    setDraft(prev => ({ ...prev, translation: { ...prev.translation, ...patch } }));
+
+  const toggleCommand = (name: string, enabled: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      commands: enabled ? [...prev.commands, name] : prev.commands.filter(c => c !== name),
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Session Settings</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {locked && (
+            <div className="text-amber-400 text-xs px-3 py-2 rounded-lg bg-amber-400/10 border border-amber-400/20">
+              Stop monitoring to change settings; they are sent to the model when a session starts.
+            </div>
+          )}
+
+          <div>
+            <span className={labelClass}>Presets</span>
+            <div className="grid grid-cols-2 gap-2">
+              {LIVE_CONFIG_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => setDraft(prev => ({ ...preset.config, translation: prev.translation }))}
+                  disabled={locked}
+                  className={`text-left p-3 rounded-xl border transition-colors disabled:opacity-50 ${
+                    activePreset?.id === preset.id
+                      ? 'border-cyan-500/60 bg-cyan-500/10'
+                      : 'border-zinc-800 bg-zinc-800/30 hover:border-zinc-600'
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-zinc-200">{preset.label}</div>
+                  <div className="text-xs text-zinc-500">{preset.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <label className="col-span-3 sm:col-span-1">
+              <span className={labelClass}>Model</span>
+              <select
+                className={`${inputClass} w-full font-mono`}
+                value={draft.model}
+                disabled={locked}
+                onChange={e => update({ model: e.target.value })}
+              >
+                {LIVE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Voice</span>
+              <select
+                className={`${inputClass} w-full`}
+                value={draft.voice}
+                disabled={locked}
+                onChange={e => update({ voice: e.target.value })}
+              >
+                {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Input sample rate</span>
+              <select
+                className={`${inputClass} w-full`}
+                value={draft.inputSampleRate}
+                disabled={locked}
+                onChange={e => update({ inputSampleRate: Number(e.target.value) })}
+              >
+                {INPUT_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>System instruction</span>
+            <textarea
+              className={`${inputClass} w-full resize-y font-mono`}
+              rows={5}
+              value={draft.systemInstruction}
+              disabled={locked}
+              onChange={e => update({ systemInstruction: e.target.value })}
+            />
+            <span className="block text-xs text-zinc-500 mt-1">
+              Describe the meeting and the model's role. Intent categories and command rules are added automatically.
+            </span>
+          </label>
+
+          <div>
+            <span className={labelClass}>Translation</span>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={draft.translation.enabled}
+                  disabled={locked}
+                  onChange={e => updateTranslation({ enabled: e.target.checked })}
+                />
+                Translate from
+              </label>
+              <select
+                className={inputClass}
+                value={draft.translation.sourceLanguage}
+                disabled={locked || !draft.translation.enabled}
+                onChange={e => updateTranslation({ sourceLanguage: e.target.value })}
+              >
+                <option value={AUTO_DETECT}>Auto-detect</option>
+                {LANGUAGES.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+              </select>
+              <span className="text-sm text-zinc-500">to</span>
+              <select
+                className={inputClass}
+                value={draft.translation.targetLanguage}
+                disabled={locked || !draft.translation.enabled}
+                onChange={e => updateTranslation({ targetLanguage: e.target.value })}
+              >
+                {LANGUAGES.map(({ code, name }) => <option key={code} value={code}>{name}</option>)}
+              </select>
+            </div>
+            <span className="block text-xs text-zinc-500 mt-1">
+              The transcript shows each turn with its translation; intents and answers are written in the target language.
+              The input language is a hint to the model; transcription always detects what is spoken.
+            </span>
+          </div>
+
+          <div>
+            <span className={labelClass}>Commands offered as tools</span>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {availableCommands.map(name => (
+                <label key={name} className="flex items-center gap-2 text-sm font-mono text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.commands.includes(name)}
+                    disabled={locked}
+                    onChange={e => toggleCommand(name, e.target.checked)}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-red-400 text-xs space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between">
+          <button
+            onClick={() => setDraft(DEFAULT_LIVE_CONFIG)}
+            disabled={locked}
+            className="text-sm text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm text-zinc-300 hover:bg-zinc-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={locked || problems.length > 0}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
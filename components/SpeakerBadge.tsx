@@ -0,0 +1,29 @@
+import React from 'react';
+import { SpeakerNames } from '../types';
+import { speakerLabel } from '../services/speakers';
+
+// Full class names are spelled out so Tailwind picks them up
+const SPEAKER_CLASSES = [
+  'text-sky-300 bg-sky-500/10 border-sky-500/30',
+  'text-pink-300 bg-pink-500/10 border-pink-500/30',
+  'text-lime-300 bg-lime-500/10 border-lime-500/30',
+  'text-orange-300 bg-orange-500/10 border-orange-500/30',
+  'text-violet-300 bg-violet-500/10 border-violet-500/30',
+  'text-teal-300 bg-teal-500/10 border-teal-500/30',
+];
+
+export function speakerClasses(speaker: string): string {
+  const index = (Number(speaker) - 1) % SPEAKER_CLASSES.length;
+  return SPEAKER_CLASSES[Number.isNaN(index) || index < 0 ? 0 : index];
+}
+
+interface SpeakerBadgeProps {
+  speaker: string;
+  names?: SpeakerNames;
+}
+
+export const SpeakerBadge: React.FC<SpeakerBadgeProps> = ({ speaker, names }) => (
+  <span className={`inline-block text-[10px] font-sans font-semibold px-1.5 py-0.5 rounded border align-middle ${speakerClasses(speaker)}`}>
+    {speakerLabel(speaker, names)}
+  </span>
+);
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiarizationSettings, SpeakerNames } from '../types';
+import { speakerClasses } from './SpeakerBadge';
+
+interface SpeakerMenuProps {
+  settings: DiarizationSettings;
+  // Attribution is configured on the session, so it only changes between runs
+  locked: boolean;
+  // Speakers heard in the session on screen, in order of appearance
+  speakers: string[];
+  names: SpeakerNames;
+  onChange: (settings: DiarizationSettings) => void;
+  onRename: (speaker: string, name: string) => void;
+}
+
+export const SpeakerMenu: React.FC<SpeakerMenuProps> = ({ settings, locked, speakers, names, onChange, onRename }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+          settings.enabled
+            ? 'border-sky-500/50 text-sky-300 bg-sky-500/10'
+            : 'border-zinc-700 text-zinc-300 hover:border-zinc-500 hover:text-zinc-100'
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+        Speakers
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl z-50 p-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Attribution</div>
+            <label className="flex items-center gap-2 text-zinc-300">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={locked}
+                onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+              />
+              Identify speakers
+            </label>
+            <label className="flex items-start gap-2 text-zinc-300">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={settings.stereoChannels}
+                disabled={locked || !settings.enabled}
+                onChange={e => onChange({ ...settings, stereoChannels: e.target.checked })}
+              />
+              <span>
+                One speaker per channel
+                <span className="block text-xs text-zinc-500">Left is Speaker 1, right is Speaker 2. For split-channel call recordings.</span>
+              </span>
+            </label>
+            {locked && <p className="text-xs text-amber-400">Stop monitoring to change attribution.</p>}
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-zinc-800">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Names</div>
+            {speakers.length === 0 ? (
+              <p className="text-xs text-zinc-500 italic">No speakers identified yet.</p>
+            ) : (
+              speakers.map(speaker => (
+                <label key={speaker} className="flex items-center gap-2">
+                  <span className={`shrink-0 w-20 text-xs font-semibold px-1.5 py-0.5 rounded border text-center ${speakerClasses(speaker)}`}>
+                    Speaker {speaker}
+                  </span>
+                  <input
+                    type="text"
+                    value={names[speaker] ?? ''}
+                    placeholder="Name"
+                    onChange={e => onRename(speaker, e.target.value)}
+                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200 focus:outline-none focus:border-cyan-500"
+                  />
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { IntentCategory } from '../types';
+import { DEFAULT_CATEGORIES, SUGGESTED_CATEGORIES, validateCategories } from '../services/intentTaxonomy';
+import { INTENT_COLOR_CLASSES, INTENT_COLORS, INTENT_ICONS, IntentIconGlyph } from './intentStyles';
+
+interface TaxonomyEditorProps {
+  categories: IntentCategory[];
+  // Edits only apply to the next session, so editing is locked while monitoring
+  locked: boolean;
+  onSave: (categories: IntentCategory[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+
+export const TaxonomyEditor: React.FC<TaxonomyEditorProps> = ({ categories, locked, onSave, onClose }) => {
+  const [draft, setDraft] = useState<IntentCategory[]>(categories);
+  const problems = validateCategories(draft);
+  const unusedSuggestions = SUGGESTED_CATEGORIES.filter(s => !draft.some(c => c.name === s.name));
+
+  const update = (index: number, patch: Partial<IntentCategory>) => {
+    setDraft(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const remove = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addCustom = () => {
+    setDraft(prev => [...prev, { name: '', description: '', color: 'cyan', icon: 'star', wantsAnswer: false }]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Intent Categories</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {locked && (
+            <div className="text-amber-400 text-xs px-3 py-2 rounded-lg bg-amber-400/10 border border-amber-400/20">
+              Stop monitoring to change categories; they are sent to the model when a session starts.
+            </div>
+          )}
+
+          {draft.map((category, index) => (
+            <div key={index} className="p-4 rounded-xl border border-zinc-800 bg-zinc-800/30 space-y-3">
+              <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-lg shrink-0 ${INTENT_COLOR_CLASSES[category.color].badge}`}>
+                  <IntentIconGlyph icon={category.icon} />
+                </div>
+                <input
+                  className={`${inputClass} font-mono uppercase flex-1`}
+                  placeholder="CATEGORY_NAME"
+                  value={category.name}
+                  disabled={locked}
+                  onChange={e => update(index, { name: e.target.value.toUpperCase().replace(/\s+/g, '_') })}
+                />
+                <label className="flex items-center gap-2 text-xs text-zinc-400 shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={category.wantsAnswer}
+                    disabled={locked}
+                    onChange={e => update(index, { wantsAnswer: e.target.checked })}
+                  />
+                  Wants answer
+                </label>
+                <button
+                  onClick={() => remove(index)}
+                  disabled={locked}
+                  className="text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                  aria-label="Remove category"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              <textarea
+                className={`${inputClass} w-full resize-none`}
+                rows={2}
+                placeholder="What the model should look for"
+                value={category.description}
+                disabled={locked}
+                onChange={e => update(index, { description: e.target.value })}
+              />
+
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-1.5">
+                  {INTENT_COLORS.map(color => (
+                    <button
+                      key={color}
+                      disabled={locked}
+                      onClick={() => update(index, { color })}
+                      className={`w-5 h-5 rounded-full ${INTENT_COLOR_CLASSES[color].swatch} ${
+                        category.color === color ? 'ring-2 ring-offset-2 ring-offset-zinc-900 ring-zinc-300' : 'opacity-60 hover:opacity-100'
+                      }`}
+                      aria-label={color}
+                    />
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  {INTENT_ICONS.map(icon => (
+                    <button
+                      key={icon}
+                      disabled={locked}
+                      onClick={() => update(index, { icon })}
+                      className={`p-1 rounded ${category.icon === icon ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                      aria-label={icon}
+                    >
+                      <IntentIconGlyph icon={icon} className="w-4 h-4" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {!locked && (
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={addCustom}
+                className="px-3 py-1.5 rounded-lg border border-dashed border-zinc-600 text-sm text-zinc-300 hover:border-zinc-400"
+              >
+                + Custom category
+              </button>
+              {unusedSuggestions.map(suggestion => (
+                <button
+                  key={suggestion.name}
+                  onClick={() => setDraft(prev => [...prev, suggestion])}
+                  className={`px-3 py-1.5 rounded-lg text-sm ${INTENT_COLOR_CLASSES[suggestion.color].badge} hover:opacity-80`}
+                >
+                  + {suggestion.name.replace(/_/g, ' ')}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {problems.length > 0 && (
+            <ul className="text-red-400 text-xs space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between">
+          <button
+            onClick={() => setDraft(DEFAULT_CATEGORIES)}
+            disabled={locked}
+            className="text-sm text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+          >
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm text-zinc-300 hover:bg-zinc-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={locked || problems.length > 0}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
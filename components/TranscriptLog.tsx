@@ -1,43 +1,109 @@
 import React, { useEffect, useRef } from 'react';
+import { MonitoringSession, SpeakerNames, TranscriptSegment } from '../types';
+import { languageName } from '../services/translation';
+import { CompiledWatchTerm } from '../services/watchlist';
+import { SpeakerBadge } from './SpeakerBadge';
+import { WatchHighlights } from './watchStyles';
 
 interface TranscriptLogProps {
-  history: string[];
-  current: string;
+  history: TranscriptSegment[];
+  // The turn still being transcribed, if any
+  current: TranscriptSegment | null;
+  speakerNames?: SpeakerNames;
+  // Languages of a translated session; segments then show both texts
+  translation?: MonitoringSession['translation'];
+  // Watch terms to highlight
+  watchTerms?: CompiledWatchTerm[];
+  // Segment under the recording's playhead
+  activeSegmentId?: string | null;
+  // When set, segments are clickable (e.g. to seek the recording)
+  onSegmentClick?: (segment: TranscriptSegment) => void;
+  // False when showing a stored session read-only
+  live?: boolean;
 }
 
-export const TranscriptLog: React.FC<TranscriptLogProps> = ({ history, current }) => {
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+
+const SegmentHeader: React.FC<{ segment: TranscriptSegment; names?: SpeakerNames }> = ({ segment, names }) => (
+  <span className="flex items-center gap-2 text-[10px] text-zinc-600 select-none mb-0.5">
+    {segment.speaker && <SpeakerBadge speaker={segment.speaker} names={names} />}
+    <span>
+      {formatTime(segment.timestamp)}
+      {segment.endTimestamp - segment.timestamp >= 1000 && ` – ${formatTime(segment.endTimestamp)}`}
+    </span>
+  </span>
+);
+
+const Translation: React.FC<{ segment: TranscriptSegment }> = ({ segment }) =>
+  segment.translation ? (
+    <span className="block pl-4 mt-0.5 font-sans text-cyan-200/90">{segment.translation}</span>
+  ) : null;
+
+export const TranscriptLog: React.FC<TranscriptLogProps> = ({
+  history,
+  current,
+  speakerNames,
+  translation,
+  watchTerms = [],
+  activeSegmentId,
+  onSegmentClick,
+  live = true,
+}) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [history, current]);
 
+  // Follow playback
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeSegmentId]);
+
   return (
     <div className="flex flex-col h-full bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden shadow-lg">
       <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center gap-2">
-        <div className="w-3 h-3 rounded-full bg-green-500 animate-pulse"></div>
-        <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Live Transcript</h2>
+        <div className={`w-3 h-3 rounded-full ${live ? 'bg-green-500 animate-pulse' : 'bg-zinc-600'}`}></div>
+        <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">{live ? 'Live Transcript' : 'Session Transcript'}</h2>
+        {translation && (
+          <span className="ml-auto text-xs text-cyan-400 bg-cyan-400/10 border border-cyan-400/20 px-2 py-0.5 rounded-full">
+            {languageName(translation.sourceLanguage)} → {languageName(translation.targetLanguage)}
+          </span>
+        )}
       </div>
       
       <div className="flex-1 overflow-y-auto p-6 space-y-4 font-mono text-sm">
         {history.length === 0 && !current && (
           <div className="text-zinc-600 italic text-center mt-10">
-            Waiting for speech...
+            {live ? 'Waiting for speech...' : 'No transcript was recorded.'}
           </div>
         )}
         
-        {history.map((segment, idx) => (
-          <div key={idx} className="text-zinc-400 opacity-70">
+        {history.map((segment) => (
+          <div
+            key={segment.id}
+            ref={segment.id === activeSegmentId ? activeRef : undefined}
+            onClick={onSegmentClick && (() => onSegmentClick(segment))}
+            className={`rounded-lg -mx-2 px-2 py-1 transition-colors ${
+              segment.id === activeSegmentId ? 'bg-cyan-500/10 text-zinc-100' : 'text-zinc-400 opacity-70'
+            } ${onSegmentClick ? 'cursor-pointer hover:bg-zinc-800/60 hover:opacity-100' : ''}`}
+          >
+            <SegmentHeader segment={segment} names={speakerNames} />
             <span className="text-zinc-600 select-none mr-2">{`>`}</span>
-            {segment}
+            <WatchHighlights text={segment.text} terms={watchTerms} />
+            <Translation segment={segment} />
           </div>
         ))}
 
         {current && (
-          <div className="text-white animate-pulse">
+          <div className="text-white">
+            <SegmentHeader segment={current} names={speakerNames} />
             <span className="text-cyan-500 select-none mr-2">{`>`}</span>
-            {current}
+            <span className="animate-pulse"><WatchHighlights text={current.text} terms={watchTerms} /></span>
             <span className="inline-block w-2 h-4 ml-1 bg-cyan-500 align-middle animate-blink"></span>
+            <Translation segment={current} />
           </div>
         )}
         <div ref={bottomRef} />
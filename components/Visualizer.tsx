@@ -1,81 +1,215 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { VisualizerMode } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.visualizerMode';
 
 interface VisualizerProps {
-  volume: number;
+  analyser: AnalyserNode | null;
   active: boolean;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ volume, active }) => {
+const MODES: { mode: VisualizerMode; label: string }[] = [
+  { mode: 'spectrum', label: 'Spectrum' },
+  { mode: 'waveform', label: 'Wave' },
+  { mode: 'meter', label: 'Level' },
+];
+
+const CYAN = '#22d3ee';   // cyan-400
+const AMBER = '#fbbf24';  // amber-400
+const RED = '#f87171';    // red-400
+const IDLE = '#3f3f46';   // zinc-700
+const TEXT = '#a1a1aa';   // zinc-400
+
+const SPECTRUM_BARS = 48;
+// Meter scale, in dBFS
+const METER_FLOOR_DB = -60;
+const PEAK_HOLD_MS = 1500;
+const PEAK_FALL_DB_PER_S = 20;
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-8));
+
+function loadMode(): VisualizerMode {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return MODES.some(m => m.mode === stored) ? (stored as VisualizerMode) : 'spectrum';
+}
+
+function drawIdle(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.beginPath();
+  ctx.moveTo(0, height / 2);
+  ctx.lineTo(width, height / 2);
+  ctx.strokeStyle = IDLE;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+}
+
+// Bars over log-spaced frequency bands, so speech (mostly below 4kHz) isn't squashed to the left
+function drawSpectrum(ctx: CanvasRenderingContext2D, width: number, height: number, bins: Uint8Array, sampleRate: number) {
+  const nyquist = sampleRate / 2;
+  const minHz = 60;
+  const maxHz = Math.min(12000, nyquist);
+  const barWidth = width / SPECTRUM_BARS;
+
+  for (let i = 0; i < SPECTRUM_BARS; i++) {
+    const lowHz = minHz * Math.pow(maxHz / minHz, i / SPECTRUM_BARS);
+    const highHz = minHz * Math.pow(maxHz / minHz, (i + 1) / SPECTRUM_BARS);
+    const from = Math.floor((lowHz / nyquist) * bins.length);
+    const to = Math.max(from + 1, Math.ceil((highHz / nyquist) * bins.length));
+
+    let max = 0;
+    for (let b = from; b < to && b < bins.length; b++) max = Math.max(max, bins[b]);
+    const barHeight = (max / 255) * height;
+
+    ctx.fillStyle = CYAN;
+    ctx.globalAlpha = 0.4 + 0.6 * (max / 255);
+    ctx.fillRect(i * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+  }
+  ctx.globalAlpha = 1;
+}
+
+// One column per animation frame holding that frame's min/max, scrolled right to left
+function drawWaveform(ctx: CanvasRenderingContext2D, width: number, height: number, columns: [number, number][]) {
+  const centerY = height / 2;
+  ctx.strokeStyle = CYAN;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  const offset = width - columns.length;
+  columns.forEach(([min, max], i) => {
+    const x = offset + i + 0.5;
+    ctx.moveTo(x, centerY - max * centerY);
+    ctx.lineTo(x, centerY - min * centerY + 1);
+  });
+  ctx.stroke();
+}
+
+function drawMeter(ctx: CanvasRenderingContext2D, width: number, height: number, rmsDb: number, peakDb: number) {
+  const scale = (db: number) => (Math.max(METER_FLOOR_DB, Math.min(0, db)) - METER_FLOOR_DB) / -METER_FLOOR_DB;
+  const barTop = height * 0.3;
+  const barHeight = height * 0.35;
+  const meterWidth = width - 48;
+
+  ctx.fillStyle = '#27272a'; // zinc-800
+  ctx.fillRect(0, barTop, meterWidth, barHeight);
+
+  const level = scale(rmsDb);
+  ctx.fillStyle = rmsDb > -6 ? RED : rmsDb > -18 ? AMBER : CYAN;
+  ctx.fillRect(0, barTop, level * meterWidth, barHeight);
+
+  const peakX = scale(peakDb) * meterWidth;
+  ctx.fillStyle = peakDb > -1 ? RED : '#e4e4e7'; // zinc-200
+  ctx.fillRect(Math.max(0, peakX - 2), barTop - 3, 2, barHeight + 6);
+
+  ctx.fillStyle = TEXT;
+  ctx.font = '9px ui-monospace, monospace';
+  ctx.textAlign = 'center';
+  [-48, -36, -24, -12, -6, 0].forEach(db => {
+    const x = scale(db) * meterWidth;
+    ctx.fillRect(x, barTop + barHeight + 2, 1, 3);
+    ctx.fillText(String(db), Math.min(Math.max(x, 8), meterWidth - 8), height - 4);
+  });
+
+  ctx.textAlign = 'right';
+  ctx.font = '11px ui-monospace, monospace';
+  ctx.fillText(rmsDb <= METER_FLOOR_DB ? '-∞' : rmsDb.toFixed(0), width - 4, barTop + barHeight - 2);
+}
+
+export const Visualizer: React.FC<VisualizerProps> = ({ analyser, active }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const requestRef = useRef<number>();
-  // Smooth out the volume
-  const smoothedVolume = useRef(0);
+  const [mode, setMode] = useState<VisualizerMode>(loadMode);
+
+  const changeMode = (next: VisualizerMode) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setMode(next);
+  };
 
-  const animate = () => {
+  // One animation loop per analyser/mode; the cleanup cancels it before a new one starts
+  useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-
-    ctx.clearRect(0, 0, width, height);
-
-    if (!active) {
-      // Draw idle line
-      ctx.beginPath();
-      ctx.moveTo(0, height / 2);
-      ctx.lineTo(width, height / 2);
-      ctx.strokeStyle = '#3f3f46'; // zinc-700
-      ctx.lineWidth = 2;
-      ctx.stroke();
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    if (!active || !analyser) {
+      ctx.clearRect(0, 0, width, height);
+      drawIdle(ctx, width, height);
       return;
     }
 
-    // Smooth volume
-    smoothedVolume.current += (volume - smoothedVolume.current) * 0.1;
-    const barHeight = Math.min(smoothedVolume.current * 200, height / 2); 
-
-    // Draw Waveform-ish visualization
-    const centerY = height / 2;
-    ctx.beginPath();
-    ctx.moveTo(0, centerY);
-    
-    // Generate a sine wave that reacts to volume
-    const frequency = 0.1;
-    const time = Date.now() * 0.005;
-    
-    for (let x = 0; x < width; x++) {
-      const y = centerY + Math.sin(x * frequency + time) * barHeight * Math.sin(x / width * Math.PI);
-      ctx.lineTo(x, y);
-    }
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const samples = new Float32Array(analyser.fftSize);
+    const columns: [number, number][] = [];
+    let peakDb = METER_FLOOR_DB;
+    let peakAt = 0;
+    let lastTime = performance.now();
+    let frame: number | null = null;
 
-    ctx.strokeStyle = '#22d3ee'; // cyan-400
-    ctx.lineWidth = 3;
-    ctx.shadowBlur = 10;
-    ctx.shadowColor = '#22d3ee';
-    ctx.stroke();
-    ctx.shadowBlur = 0;
+    const render = (now: number) => {
+      const elapsed = (now - lastTime) / 1000;
+      lastTime = now;
+      ctx.clearRect(0, 0, width, height);
 
-    requestRef.current = requestAnimationFrame(animate);
-  };
+      if (mode === 'spectrum') {
+        analyser.getByteFrequencyData(bins);
+        drawSpectrum(ctx, width, height, bins, analyser.context.sampleRate);
+      } else {
+        analyser.getFloatTimeDomainData(samples);
+        let min = 0;
+        let max = 0;
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) {
+          const v = samples[i];
+          if (v < min) min = v;
+          if (v > max) max = v;
+          sum += v * v;
+        }
+
+        if (mode === 'waveform') {
+          columns.push([min, max]);
+          if (columns.length > width) columns.shift();
+          drawWaveform(ctx, width, height, columns);
+        } else {
+          const rmsDb = toDb(Math.sqrt(sum / samples.length));
+          const instantPeakDb = toDb(Math.max(-min, max));
+          // Peak hold: keep the highest peak for a moment, then let it fall
+          if (instantPeakDb >= peakDb) {
+            peakDb = instantPeakDb;
+            peakAt = now;
+          } else if (now - peakAt > PEAK_HOLD_MS) {
+            peakDb = Math.max(instantPeakDb, peakDb - PEAK_FALL_DB_PER_S * elapsed, METER_FLOOR_DB);
+          }
+          drawMeter(ctx, width, height, rmsDb, peakDb);
+        }
+      }
+
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
 
-  useEffect(() => {
-    requestRef.current = requestAnimationFrame(animate);
     return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      if (frame !== null) cancelAnimationFrame(frame);
     };
-  }, [volume, active]);
+  }, [analyser, active, mode]);
 
   return (
-    <div className="w-full h-16 bg-zinc-900/50 rounded-lg border border-zinc-800 overflow-hidden">
-      <canvas 
-        ref={canvasRef} 
-        width={300} 
-        height={64} 
+    <div className="relative w-full h-16 bg-zinc-900/50 rounded-lg border border-zinc-800 overflow-hidden group">
+      <canvas
+        ref={canvasRef}
+        width={300}
+        height={64}
         className="w-full h-full block"
       />
+      <div className="absolute top-1 right-1 flex gap-0.5 opacity-40 group-hover:opacity-100 transition-opacity">
+        {MODES.map(({ mode: m, label }) => (
+          <button
+            key={m}
+            onClick={() => changeMode(m)}
+            className={`px-1.5 py-0.5 rounded text-[10px] font-mono uppercase ${
+              mode === m ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GatingMode, VadSettings } from '../types';
+
+interface VoiceGateMenuProps {
+  settings: VadSettings;
+  // The mode is fixed for a running session; thresholds can still be tuned
+  modeLocked: boolean;
+  onChange: (settings: VadSettings) => void;
+}
+
+const MODE_LABELS: Record<GatingMode, string> = {
+  off: 'Stream everything',
+  vad: 'Voice activity detection',
+  pushToTalk: 'Push-to-talk',
+};
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit, onChange }) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-xs text-zinc-400">
+      <span>{label}</span>
+      <span className="font-mono text-zinc-300">{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      className="w-full accent-cyan-500"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+    />
+  </label>
+);
+
+export const VoiceGateMenu: React.FC<VoiceGateMenuProps> = ({ settings, modeLocked, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [capturingKey, setCapturingKey] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Next key pressed becomes the push-to-talk key
+  useEffect(() => {
+    if (!capturingKey) return;
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code !== 'Escape') onChange({ ...settings, pushToTalkKey: e.code });
+      setCapturingKey(false);
+    };
+    window.addEventListener('keydown', handleKey, { once: true });
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [capturingKey, settings, onChange]);
+
+  const update = (patch: Partial<VadSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-zinc-700 text-sm text-zinc-300 hover:border-zinc-500 hover:text-zinc-100 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+        </svg>
+        {settings.mode === 'off' ? 'Gate' : settings.mode === 'vad' ? 'VAD' : 'PTT'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 rounded-xl bg-zinc-900 border border-zinc-700 shadow-2xl z-50 p-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            <div className="text-xs text-zinc-500 uppercase tracking-widest font-semibold">Audio gating</div>
+            {(Object.keys(MODE_LABELS) as GatingMode[]).map(mode => (
+              <label key={mode} className="flex items-center gap-2 text-zinc-300">
+                <input
+                  type="radio"
+                  checked={settings.mode === mode}
+                  disabled={modeLocked}
+                  onChange={() => update({ mode })}
+                />
+                {MODE_LABELS[mode]}
+              </label>
+            ))}
+            {modeLocked && <p className="text-xs text-amber-400">Stop monitoring to change the mode.</p>}
+          </div>
+
+          {settings.mode === 'vad' && (
+            <div className="space-y-3 pt-3 border-t border-zinc-800">
+              <Slider label="Threshold above noise" value={settings.thresholdDb} min={3} max={30} step={1} unit=" dB"
+                onChange={thresholdDb => update({ thresholdDb })} />
+              <Slider label="Minimum level" value={settings.minLevelDb} min={-80} max={-20} step={1} unit=" dBFS"
+                onChange={minLevelDb => update({ minLevelDb })} />
+            </div>
+          )}
+
+          {settings.mode === 'pushToTalk' && (
+            <div className="flex items-center justify-between pt-3 border-t border-zinc-800">
+              <span className="text-xs text-zinc-400">Talk key</span>
+              <button
+                onClick={() => setCapturingKey(true)}
+                className="px-2 py-1 rounded border border-zinc-600 font-mono text-xs text-zinc-200 hover:border-zinc-400"
+              >
+                {capturingKey ? 'Press a key…' : settings.pushToTalkKey}
+              </button>
+            </div>
+          )}
+
+          {settings.mode !== 'off' && (
+            <div className="space-y-3 pt-3 border-t border-zinc-800">
+              <Slider label="Hangover" value={settings.hangoverMs} min={0} max={3000} step={100} unit=" ms"
+                onChange={hangoverMs => update({ hangoverMs })} />
+              <Slider label="Pre-roll" value={settings.preRollMs} min={0} max={1000} step={100} unit=" ms"
+                onChange={preRollMs => update({ preRollMs })} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { WatchlistSettings, WatchSeverity, WatchTerm, WatchTermKind } from '../types';
+import { DEFAULT_WATCHLIST_SETTINGS, validateWatchTerms, WATCH_SEVERITIES } from '../services/watchlist';
+import { WATCH_SEVERITY_CLASSES } from './watchStyles';
+
+interface WatchlistEditorProps {
+  settings: WatchlistSettings;
+  // Matching is local, so changes apply immediately, even while monitoring
+  onSave: (settings: WatchlistSettings) => void;
+  onClose: () => void;
+}
+
+const KINDS: { kind: WatchTermKind; label: string }[] = [
+  { kind: 'word', label: 'Word' },
+  { kind: 'phrase', label: 'Phrase' },
+  { kind: 'regex', label: 'Regex' },
+];
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-cyan-500 disabled:opacity-50';
+
+export const WatchlistEditor: React.FC<WatchlistEditorProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<WatchlistSettings>(settings);
+  const problems = validateWatchTerms(draft.terms);
+  const notificationsBlocked = typeof Notification === 'undefined' || Notification.permission === 'denied';
+
+  const updateTerm = (index: number, patch: Partial<WatchTerm>) => {
+    setDraft(prev => ({ ...prev, terms: prev.terms.map((t, i) => (i === index ? { ...t, ...patch } : t)) }));
+  };
+
+  const removeTerm = (index: number) => {
+    setDraft(prev => ({ ...prev, terms: prev.terms.filter((_, i) => i !== index) }));
+  };
+
+  const addTerm = () => {
+    setDraft(prev => ({
+      ...prev,
+      terms: [...prev.terms, { id: crypto.randomUUID(), pattern: '', kind: 'word', severity: 'warning' }],
+    }));
+  };
+
+  // Ask when the option is switched on, so the prompt follows a user action
+  const toggleNotify = async (enabled: boolean) => {
+    if (enabled && Notification.permission === 'default') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') return;
+    }
+    setDraft(prev => ({ ...prev, notify: enabled }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-zinc-800/50 px-6 py-3 border-b border-zinc-700 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">Watchlist</h2>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" aria-label="Close">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-xs text-zinc-500">
+            Terms are matched on this device against the live transcript, whatever the model reports.
+            Words and phrases ignore case and only match whole words; regular expressions are used as written, case-insensitively.
+          </p>
+
+          {draft.terms.length === 0 && (
+            <p className="text-sm text-zinc-600 italic">No watch terms yet.</p>
+          )}
+
+          {draft.terms.map((term, index) => (
+            <div key={term.id} className="flex items-center gap-2">
+              <input
+                className={`${inputClass} flex-1 ${term.kind === 'regex' ? 'font-mono' : ''}`}
+                placeholder={term.kind === 'regex' ? 'out(age|ages)' : term.kind === 'phrase' ? 'hard deadline' : 'outage'}
+                value={term.pattern}
+                onChange={e => updateTerm(index, { pattern: e.target.value })}
+              />
+              <select
+                className={inputClass}
+                value={term.kind}
+                onChange={e => updateTerm(index, { kind: e.target.value as WatchTermKind })}
+              >
+                {KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+              </select>
+              <select
+                className={`${inputClass} ${WATCH_SEVERITY_CLASSES[term.severity].text}`}
+                value={term.severity}
+                onChange={e => updateTerm(index, { severity: e.target.value as WatchSeverity })}
+              >
+                {WATCH_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+              </select>
+              <button
+                onClick={() => removeTerm(index)}
+                className="text-zinc-500 hover:text-red-400"
+                aria-label="Remove term"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={addTerm}
+            className="px-3 py-1.5 rounded-lg border border-dashed border-zinc-600 text-sm text-zinc-300 hover:border-zinc-400"
+          >
+            + Watch term
+          </button>
+
+          <div className="pt-4 border-t border-zinc-800 space-y-2">
+            <label className="flex items-center gap-2 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draft.notify}
+                disabled={notificationsBlocked && !draft.notify}
+                onChange={e => toggleNotify(e.target.checked)}
+              />
+              Desktop notification for each alert
+              {notificationsBlocked && <span className="text-xs text-zinc-500">(blocked by the browser)</span>}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draft.sound}
+                onChange={e => setDraft(prev => ({ ...prev, sound: e.target.checked }))}
+              />
+              Play a sound for each alert
+            </label>
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-red-400 text-xs space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between">
+          <button
+            onClick={() => setDraft(DEFAULT_WATCHLIST_SETTINGS)}
+            className="text-sm text-zinc-400 hover:text-zinc-200"
+          >
+            Clear
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-sm text-zinc-300 hover:bg-zinc-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={problems.length > 0}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-cyan-500 text-black hover:bg-cyan-400 disabled:opacity-40 disabled:hover:bg-cyan-500"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
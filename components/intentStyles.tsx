@@ -0,0 +1,50 @@
+import React from 'react';
+import { IntentCategory, IntentColor, IntentIcon } from '../types';
+
+interface IntentColorClasses {
+  card: string;
+  badge: string;
+  label: string;
+  swatch: string;
+}
+
+// Full class names are spelled out so Tailwind picks them up
+export const INTENT_COLOR_CLASSES: Record<IntentColor, IntentColorClasses> = {
+  blue: { card: 'bg-blue-950/30 border-blue-900/50 hover:border-blue-500/50', badge: 'bg-blue-500/20 text-blue-400', label: 'text-blue-400', swatch: 'bg-blue-500' },
+  amber: { card: 'bg-amber-950/30 border-amber-900/50 hover:border-amber-500/50', badge: 'bg-amber-500/20 text-amber-400', label: 'text-amber-400', swatch: 'bg-amber-500' },
+  green: { card: 'bg-green-950/30 border-green-900/50 hover:border-green-500/50', badge: 'bg-green-500/20 text-green-400', label: 'text-green-400', swatch: 'bg-green-500' },
+  purple: { card: 'bg-purple-950/30 border-purple-900/50 hover:border-purple-500/50', badge: 'bg-purple-500/20 text-purple-400', label: 'text-purple-400', swatch: 'bg-purple-500' },
+  red: { card: 'bg-red-950/30 border-red-900/50 hover:border-red-500/50', badge: 'bg-red-500/20 text-red-400', label: 'text-red-400', swatch: 'bg-red-500' },
+  rose: { card: 'bg-rose-950/30 border-rose-900/50 hover:border-rose-500/50', badge: 'bg-rose-500/20 text-rose-400', label: 'text-rose-400', swatch: 'bg-rose-500' },
+  cyan: { card: 'bg-cyan-950/30 border-cyan-900/50 hover:border-cyan-500/50', badge: 'bg-cyan-500/20 text-cyan-400', label: 'text-cyan-400', swatch: 'bg-cyan-500' },
+  zinc: { card: 'bg-zinc-800/30 border-zinc-700/50 hover:border-zinc-500/50', badge: 'bg-zinc-500/20 text-zinc-400', label: 'text-zinc-400', swatch: 'bg-zinc-500' },
+};
+
+const ICON_PATHS: Record<IntentIcon, string> = {
+  question: 'M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+  bolt: 'M13 10V3L4 14h7v7l9-11h-7z',
+  check: 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z',
+  flag: 'M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9',
+  warning: 'M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z',
+  stop: 'M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636',
+  note: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+  star: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z',
+};
+
+export const INTENT_COLORS = Object.keys(INTENT_COLOR_CLASSES) as IntentColor[];
+export const INTENT_ICONS = Object.keys(ICON_PATHS) as IntentIcon[];
+
+// Intents from stored sessions may reference categories that no longer exist
+const FALLBACK_STYLE = { color: 'zinc' as IntentColor, icon: 'star' as IntentIcon };
+
+export function getIntentStyle(type: string, categories: IntentCategory[]) {
+  const category = categories.find(c => c.name === type);
+  const { color, icon } = category ?? FALLBACK_STYLE;
+  return { classes: INTENT_COLOR_CLASSES[color], icon };
+}
+
+export const IntentIconGlyph: React.FC<{ icon: IntentIcon; className?: string }> = ({ icon, className = 'w-5 h-5' }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={ICON_PATHS[icon]} />
+  </svg>
+);
@@ -0,0 +1,37 @@
+import React from 'react';
+import { WatchSeverity } from '../types';
+import { CompiledWatchTerm, findWatchMatches } from '../services/watchlist';
+
+interface WatchSeverityClasses {
+  text: string;
+  highlight: string;
+  card: string;
+  badge: string;
+}
+
+// Full class names are spelled out so Tailwind picks them up
+export const WATCH_SEVERITY_CLASSES: Record<WatchSeverity, WatchSeverityClasses> = {
+  info: { text: 'text-sky-400', highlight: 'bg-sky-500/20 text-sky-200', card: 'bg-sky-950/30 border-sky-900/50', badge: 'bg-sky-500/20 text-sky-400' },
+  warning: { text: 'text-amber-400', highlight: 'bg-amber-500/25 text-amber-100', card: 'bg-amber-950/30 border-amber-900/50', badge: 'bg-amber-500/20 text-amber-400' },
+  critical: { text: 'text-red-400', highlight: 'bg-red-500/30 text-red-100', card: 'bg-red-950/40 border-red-800/60', badge: 'bg-red-500/20 text-red-400' },
+};
+
+// Text with every watch term match marked, colored by severity
+export const WatchHighlights: React.FC<{ text: string; terms: CompiledWatchTerm[] }> = ({ text, terms }) => {
+  const matches = terms.length > 0 ? findWatchMatches(text, terms) : [];
+  if (matches.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach((match, i) => {
+    if (match.start > position) parts.push(text.slice(position, match.start));
+    parts.push(
+      <mark key={i} className={`rounded px-0.5 ${WATCH_SEVERITY_CLASSES[match.term.severity].highlight}`} title={match.term.pattern}>
+        {match.text}
+      </mark>
+    );
+    position = match.end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
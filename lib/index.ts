@@ -0,0 +1,39 @@
+// Entry point for embedding the monitor in other apps without the UI.
+// Build with `npm run build:lib`; React is only needed for useLiveMonitor.
+//
+// Without a transport, LiveManager (and so useLiveMonitor) connects through
+// RelayTransport, which asks `/api/live-token` on the page's own origin for a
+// session token. That needs server/relay.mjs (or an equivalent) behind `/api`;
+// otherwise pass a transport, e.g. `new GeminiTransport(apiKey)` or a
+// MockTransport replaying a fixture.
+
+export { LiveManager } from '../services/liveManager';
+export type { LiveManagerEvents } from '../services/liveManager';
+export { TypedEmitter } from '../services/typedEmitter';
+export type { EventMap } from '../services/typedEmitter';
+export { useLiveMonitor } from './useLiveMonitor';
+export type { LiveMonitor, UseLiveMonitorOptions } from './useLiveMonitor';
+
+export {
+  DEFAULT_LIVE_CONFIG,
+  LIVE_MODELS,
+  LiveConfigError,
+  validateLiveConfig,
+} from '../services/liveConfig';
+export type { LiveManagerConfig } from '../services/liveConfig';
+export { CommandRegistry, UTTERANCE_PARAM } from '../services/commandRegistry';
+export type { CommandHandler, CommandResult } from '../services/commandRegistry';
+export { BUILTIN_COMMANDS, createBuiltinCommandRegistry } from '../services/builtinCommands';
+export { DEFAULT_CATEGORIES } from '../services/intentTaxonomy';
+
+export { GeminiTransport, RelayTransport } from '../services/transport';
+export type { LiveTransport, LiveTransportSession } from '../services/transport';
+export { MockTransport } from '../services/mockTransport';
+export { RecordingTransport } from '../services/recordingTransport';
+export { AudioFileSource, DisplayAudioSource, MicrophoneSource } from '../services/inputSources';
+export type { InputSource, InputSourceHandle, InputSourceKind } from '../services/inputSources';
+export { SessionAudioRecorder } from '../services/audioRecorder';
+export { chunkDocument, KnowledgeIndex, readKnowledgeFile } from '../services/knowledgeBase';
+export type { KnowledgeHit } from '../services/knowledgeBase';
+
+export * from '../types';
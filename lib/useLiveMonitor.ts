@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LiveManager } from '../services/liveManager';
+import { LiveManagerConfig } from '../services/liveConfig';
+import { CommandRegistry } from '../services/commandRegistry';
+import { LiveTransport } from '../services/transport';
+import { InputSource } from '../services/inputSources';
+import {
+  AudioHold,
+  ConnectionState,
+  DetectedIntent,
+  InputHealth,
+  LiveMetrics,
+  TranscriptSegment,
+  WatchAlert,
+} from '../types';
+
+// Read once, when the manager is created; use the returned manager to change
+// settings afterwards. Without a transport the run goes through the `/api`
+// relay (see lib/index.ts).
+export interface UseLiveMonitorOptions {
+  config?: LiveManagerConfig;
+  commands?: CommandRegistry;
+  transport?: LiveTransport;
+}
+
+export interface LiveMonitor {
+  manager: LiveManager;
+  connectionState: ConnectionState;
+  isRunning: boolean;
+  // Final segments of the current (or last) run, and the one being spoken
+  segments: TranscriptSegment[];
+  currentSegment: TranscriptSegment | null;
+  intents: DetectedIntent[];
+  alerts: WatchAlert[];
+  audioHold: AudioHold;
+  metrics: LiveMetrics | null;
+  analyser: AnalyserNode | null;
+  inputHealth: InputHealth;
+  speaking: boolean;
+  answerPlaying: boolean;
+  error: Error | null;
+  start: (source?: InputSource) => Promise<void>;
+  stop: () => void;
+  setAudioHold: (hold: AudioHold) => Promise<void>;
+}
+
+// Owns one LiveManager for the lifetime of the component and mirrors what it
+// reports into React state. Lists start over whenever a new run connects; the
+// run is stopped on unmount. Throws LiveConfigError when `config` is invalid.
+export function useLiveMonitor(options: UseLiveMonitorOptions = {}): LiveMonitor {
+  const [manager] = useState(() => new LiveManager(options.config, options.commands, options.transport));
+  const [connectionState, setConnectionState] = useState(manager.connectionState);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [currentSegment, setCurrentSegment] = useState<TranscriptSegment | null>(null);
+  const [intents, setIntents] = useState<DetectedIntent[]>([]);
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const [audioHold, setAudioHold] = useState<AudioHold>(manager.audioHold);
+  const [metrics, setMetrics] = useState<LiveMetrics | null>(null);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [inputHealth, setInputHealth] = useState<InputHealth>('ok');
+  const [speaking, setSpeaking] = useState(false);
+  const [answerPlaying, setAnswerPlaying] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const unsubscribers = [
+      manager.on('state', (state) => {
+        setConnectionState(state);
+        if (state === ConnectionState.CONNECTING) {
+          setSegments([]);
+          setCurrentSegment(null);
+          setIntents([]);
+          setAlerts([]);
+          setMetrics(null);
+          setError(null);
+        }
+      }),
+      // A final segment replaces its earlier copy when a translation arrives late
+      manager.on('segment', (segment) => {
+        if (!segment.isFinal) {
+          setCurrentSegment(segment);
+          return;
+        }
+        setSegments(prev => (
+          prev.some(s => s.id === segment.id) ? prev.map(s => (s.id === segment.id ? segment : s)) : [...prev, segment]
+        ));
+        setCurrentSegment(c => (c?.id === segment.id ? null : c));
+      }),
+      manager.on('intent', (intent) => setIntents(prev => [...prev, intent])),
+      manager.on('intentUpdated', (id, patch) => {
+        setIntents(prev => prev.map(intent => (intent.id === id ? { ...intent, ...patch } : intent)));
+      }),
+      manager.on('watchAlert', (alert) => setAlerts(prev => [...prev, alert])),
+      manager.on('hold', setAudioHold),
+      manager.on('metrics', setMetrics),
+      manager.on('analyser', setAnalyser),
+      manager.on('inputHealth', setInputHealth),
+      manager.on('speechActivity', setSpeaking),
+      manager.on('playback', setAnswerPlaying),
+      manager.on('error', setError),
+      // The manager has already finalized the open segment
+      manager.on('disconnect', () => {
+        setCurrentSegment(null);
+        setSpeaking(false);
+        setAnswerPlaying(false);
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      manager.disconnect();
+    };
+  }, [manager]);
+
+  // Starts a run, optionally on a different input than last time
+  const start = useCallback(async (source?: InputSource) => {
+    if (source) manager.setInputSource(source);
+    await manager.connect();
+  }, [manager]);
+
+  const stop = useCallback(() => manager.disconnect(), [manager]);
+
+  const setHold = useCallback((hold: AudioHold) => manager.setAudioHold(hold), [manager]);
+
+  return {
+    manager,
+    connectionState,
+    isRunning:
+      connectionState === ConnectionState.CONNECTING ||
+      connectionState === ConnectionState.OPEN ||
+      connectionState === ConnectionState.RECONNECTING,
+    segments,
+    currentSegment,
+    intents,
+    alerts,
+    audioHold,
+    metrics,
+    analyser,
+    inputHealth,
+    speaking,
+    answerPlaying,
+    error,
+    start,
+    stop,
+    setAudioHold: setHold,
+  };
+}
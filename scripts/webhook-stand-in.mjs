@@ -0,0 +1,44 @@
+// Minimal webhook receiver for trying out the integrations locally.
+// Logs every event it is sent; set FAIL=1 to answer 503 and exercise retries
+// and the offline queue.
+//   npm run webhook:stand-in            (listens on http://localhost:8787)
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const FAIL = process.env.FAIL === '1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Webhook-Secret',
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, corsHeaders).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    if (FAIL) {
+      console.log('Rejecting event with 503');
+      res.writeHead(503, corsHeaders).end();
+      return;
+    }
+    try {
+      const event = JSON.parse(body);
+      const secret = req.headers['x-webhook-secret'];
+      console.log(`[${new Date().toISOString()}] ${event.type} (session ${event.sessionId})${secret ? ' with secret' : ''}`);
+      console.dir(event, { depth: 4 });
+      res.writeHead(204, corsHeaders).end();
+    } catch {
+      res.writeHead(400, corsHeaders).end('Body must be JSON');
+    }
+  });
+}).listen(PORT, () => console.log(`Webhook stand-in listening on http://localhost:${PORT}`));
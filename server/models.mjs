@@ -0,0 +1,10 @@
+// Models the relay hands out tokens and runs generations for. The app imports
+// this list too, so settings can only offer what the relay accepts.
+export const LIVE_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+  'gemini-2.0-flash-live-001',
+];
+
+// The first one writes the post-session reports
+export const TEXT_MODELS = ['gemini-2.5-flash'];
@@ -0,0 +1,231 @@
+// Relay server: serves the built app and keeps the Gemini API key on the server.
+// The browser never sees the key. It asks the relay for a single-use ephemeral
+// token before each Live connection, and sends report requests through it.
+//   npm run build && npm run relay      (serves http://localhost:8080)
+//
+// Environment (also read from .env.local):
+//   GEMINI_API_KEY       required
+//   PORT / RELAY_PORT    default 8080 (the dev server proxies /api to RELAY_PORT)
+//   RELAY_ACCESS_KEYS    "alice:key1,bob:key2" - when set, every API call needs
+//                        "Authorization: Bearer <key>" and limits apply per user;
+//                        otherwise they apply per client IP
+//   RELAY_RATE_LIMIT     API calls per user per minute, default 30
+//   RELAY_TRUST_PROXY    "1" to take the client IP from X-Forwarded-For
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_MODELS, TEXT_MODELS } from './models.mjs';
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const PORT = Number(process.env.PORT || process.env.RELAY_PORT || 8080);
+const RATE_LIMIT = Number(process.env.RELAY_RATE_LIMIT ?? 30);
+const RATE_WINDOW_MS = 60_000;
+const TRUST_PROXY = process.env.RELAY_TRUST_PROXY === '1';
+const DIST_DIR = resolve('dist');
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+// A token must open its session within a minute and is good for one session.
+// Resuming that session (after a GoAway or a dropped socket) doesn't use it
+// up, so a token lives as long as the longest run we expect.
+const TOKEN_START_WINDOW_MS = 60_000;
+const TOKEN_LIFETIME_MS = 30 * 60_000;
+
+// The only generation settings the report request may pass through
+const TEXT_CONFIG_FIELDS = ['responseMimeType', 'responseSchema', 'systemInstruction', 'temperature'];
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set (environment or .env.local)');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+// key -> user name
+const accessKeys = new Map(
+  (process.env.RELAY_ACCESS_KEYS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator > 0 ? [entry.slice(separator + 1), entry.slice(0, separator)] : [entry, entry];
+    })
+);
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+};
+
+class HttpError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+const log = (message) => console.log(`[${new Date().toISOString()}] ${message}`);
+
+function clientIp(req) {
+  const forwarded = TRUST_PROXY ? req.headers['x-forwarded-for']?.split(',')[0].trim() : undefined;
+  return forwarded || req.socket.remoteAddress || 'unknown';
+}
+
+// Who is calling: the access key's owner, or the client IP when keys are off
+function identify(req) {
+  if (accessKeys.size === 0) return `ip:${clientIp(req)}`;
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  const user = match && accessKeys.get(match[1].trim());
+  if (!user) throw new HttpError(401, 'A valid relay access key is required');
+  return user;
+}
+
+// Sliding window of recent calls per user
+const recentCalls = new Map();
+
+function checkRateLimit(user) {
+  const now = Date.now();
+  const calls = (recentCalls.get(user) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  if (calls.length >= RATE_LIMIT) {
+    const retryAfter = Math.ceil((calls[0] + RATE_WINDOW_MS - now) / 1000);
+    recentCalls.set(user, calls);
+    throw new HttpError(429, `Rate limit reached; try again in ${retryAfter}s`, { 'Retry-After': String(retryAfter) });
+  }
+  calls.push(now);
+  recentCalls.set(user, calls);
+}
+
+// Forget idle users so the map doesn't grow forever
+setInterval(() => {
+  const now = Date.now();
+  for (const [user, calls] of recentCalls) {
+    if (calls.every(time => now - time >= RATE_WINDOW_MS)) recentCalls.delete(user);
+  }
+}, RATE_WINDOW_MS).unref();
+
+async function readJson(req) {
+  let size = 0;
+  const chunks = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function createLiveToken(user, body) {
+  const model = body.model;
+  if (!LIVE_MODELS.includes(model)) throw new HttpError(400, `Live model not allowed: ${model}`);
+
+  const now = Date.now();
+  const expiresAt = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + TOKEN_START_WINDOW_MS).toISOString(),
+      // Tokens only open sessions on the model they were asked for
+      liveConnectConstraints: { model },
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  log(`${user} live connection: token issued for ${model}`);
+  return { token: token.name, expiresAt };
+}
+
+async function generateText(user, body) {
+  const { model, contents, config = {} } = body;
+  if (!TEXT_MODELS.includes(model)) throw new HttpError(400, `Text model not allowed: ${model}`);
+  if (typeof contents !== 'string' || !contents.trim()) throw new HttpError(400, 'contents must be a non-empty string');
+
+  const allowedConfig = Object.fromEntries(Object.entries(config).filter(([field]) => TEXT_CONFIG_FIELDS.includes(field)));
+  const response = await ai.models.generateContent({ model, contents, config: allowedConfig });
+  log(`${user} generated text with ${model} (${contents.length} chars in)`);
+  return { text: response.text ?? '' };
+}
+
+const API_ROUTES = {
+  '/api/live-token': createLiveToken,
+  '/api/generate': generateText,
+};
+
+async function handleApi(req, res, pathname) {
+  const route = API_ROUTES[pathname];
+  if (!route) throw new HttpError(404, 'Not found');
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST', { Allow: 'POST' });
+
+  const user = identify(req);
+  req.user = user;
+  checkRateLimit(user);
+  const body = await readJson(req);
+  try {
+    sendJson(res, 200, await route(user, body));
+  } catch (err) {
+    if (err instanceof HttpError) throw err;
+    // The reason stays in the log; upstream errors may echo request details
+    log(`${user} ${pathname} failed upstream: ${err?.message ?? err}`);
+    throw new HttpError(502, 'Gemini rejected the request');
+  }
+}
+
+// Files from dist/, falling back to index.html for client-side routes
+async function serveStatic(req, res, pathname) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Method not allowed');
+  const requested = normalize(join(DIST_DIR, decodeURIComponent(pathname)));
+  if (!requested.startsWith(DIST_DIR + sep)) throw new HttpError(404, 'Not found');
+
+  let file = requested;
+  const info = await stat(file).catch(() => null);
+  if (!info?.isFile()) file = join(DIST_DIR, 'index.html');
+
+  const content = await readFile(file).catch(() => null);
+  if (!content) throw new HttpError(404, 'The app is not built yet; run npm run build');
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream',
+    // Vite fingerprints asset names, so only index.html must be revalidated
+    'Cache-Control': file.startsWith(join(DIST_DIR, 'assets')) ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  res.end(req.method === 'HEAD' ? undefined : content);
+}
+
+createServer(async (req, res) => {
+  const started = Date.now();
+  const { pathname } = new URL(req.url ?? '/', 'http://relay');
+  const isApi = pathname.startsWith('/api/');
+
+  try {
+    if (isApi) await handleApi(req, res, pathname);
+    else await serveStatic(req, res, pathname);
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error(err);
+    if (!res.headersSent) sendJson(res, status, { error: err instanceof HttpError ? err.message : 'Internal error' }, err.headers);
+    else res.end();
+  }
+
+  if (isApi) log(`${req.method} ${pathname} ${res.statusCode} ${Date.now() - started}ms ${req.user ?? '-'} from ${clientIp(req)}`);
+}).listen(PORT, () => {
+  log(`Relay listening on http://localhost:${PORT}`);
+  log(accessKeys.size > 0 ? `${accessKeys.size} access key(s) configured` : 'No access keys: limits apply per client IP');
+});
@@ -0,0 +1,99 @@
+import { decodeAudioData } from './audioUtils';
+import { PlaybackSettings } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.playback';
+
+// The Live API speaks 16-bit mono PCM at 24kHz
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export const PREBUILT_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  speakAnswers: false,
+  volume: 0.8,
+  muted: false,
+};
+
+export function loadPlaybackSettings(): PlaybackSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PLAYBACK_SETTINGS;
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+}
+
+export function savePlaybackSettings(settings: PlaybackSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Plays the model's audio chunks back to back. Each chunk is scheduled to
+// start exactly where the previous one ends, so there are no gaps or clicks
+// between them; interrupt() drops everything queued at once.
+export class AnswerPlayer {
+  private ctx: AudioContext;
+  private gain: GainNode;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  // Bumped on interrupt so chunks still decoding are discarded
+  private epoch = 0;
+
+  public onPlayingChange: (playing: boolean) => void = () => {};
+
+  constructor(volume = DEFAULT_PLAYBACK_SETTINGS.volume, muted = false) {
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.gain = this.ctx.createGain();
+    this.gain.connect(this.ctx.destination);
+    this.setVolume(volume, muted);
+  }
+
+  public get isPlaying(): boolean {
+    return this.sources.size > 0;
+  }
+
+  public setVolume(volume: number, muted: boolean) {
+    this.gain.gain.setTargetAtTime(muted ? 0 : volume, this.ctx.currentTime, 0.01);
+  }
+
+  public async enqueue(base64Pcm: string) {
+    const epoch = this.epoch;
+    if (this.ctx.state === 'suspended') await this.ctx.resume();
+    const buffer = await decodeAudioData(base64Pcm, this.ctx, OUTPUT_SAMPLE_RATE);
+    if (epoch !== this.epoch) return;
+
+    // After a pause in speech, start from now rather than in the past
+    this.nextStartTime = Math.max(this.nextStartTime, this.ctx.currentTime);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0) this.onPlayingChange(false);
+    };
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+
+    const wasIdle = this.sources.size === 0;
+    this.sources.add(source);
+    if (wasIdle) this.onPlayingChange(true);
+  }
+
+  // Barge-in: silence immediately and forget anything still queued
+  public interrupt() {
+    this.epoch++;
+    if (this.sources.size === 0) return;
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+    this.onPlayingChange(false);
+  }
+
+  public close() {
+    this.interrupt();
+    this.ctx.close();
+  }
+}
@@ -0,0 +1,92 @@
+import { PcmFrame } from './pcmCaptureWorklet';
+import { SessionAudio } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.recordAudio';
+
+export function loadRecordAudio(): boolean {
+  return localStorage.getItem(STORAGE_KEY) === 'true';
+}
+
+export function saveRecordAudio(enabled: boolean) {
+  localStorage.setItem(STORAGE_KEY, String(enabled));
+}
+
+// Keeps every captured frame (before gating, so silence is preserved and the
+// timeline stays continuous) and packs them into a WAV file when done.
+export class SessionAudioRecorder {
+  private frames: Int16Array[] = [];
+  private frameTimestamps: number[] = [];
+  private sampleRate = 0;
+  private frameSamples = 0;
+
+  public get isEmpty(): boolean {
+    return this.frames.length === 0;
+  }
+
+  public push(frame: PcmFrame) {
+    if (this.frames.length === 0) {
+      this.sampleRate = frame.sampleRate;
+      this.frameSamples = frame.pcm.length;
+    }
+    // The worklet transfers its buffer, so the frame's PCM is ours to keep
+    this.frames.push(frame.pcm);
+    this.frameTimestamps.push(Date.now());
+  }
+
+  public finish(sessionId: string): SessionAudio {
+    return {
+      sessionId,
+      blob: encodeWav(this.frames, this.sampleRate),
+      sampleRate: this.sampleRate,
+      frameDurationMs: (this.frameSamples / this.sampleRate) * 1000,
+      frameTimestamps: this.frameTimestamps,
+    };
+  }
+}
+
+function encodeWav(frames: Int16Array[], sampleRate: number): Blob {
+  const dataBytes = frames.reduce((sum, f) => sum + f.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);             // fmt chunk size
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true);              // block align
+  header.setUint16(34, 16, true);             // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataBytes, true);
+
+  return new Blob([header.buffer, ...frames.map(f => f.buffer as ArrayBuffer)], { type: 'audio/wav' });
+}
+
+// Position in the recording (seconds) of a wall-clock timestamp
+export function timestampToOffset(audio: SessionAudio, timestamp: number): number {
+  const times = audio.frameTimestamps;
+  let lo = 0;
+  let hi = times.length - 1;
+  if (hi < 0 || timestamp <= times[0]) return 0;
+  // Last frame captured at or before the timestamp
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (times[mid] <= timestamp) lo = mid;
+    else hi = mid - 1;
+  }
+  return (lo * audio.frameDurationMs) / 1000;
+}
+
+// Wall-clock time at which the audio at `offset` seconds was captured
+export function offsetToTimestamp(audio: SessionAudio, offset: number): number {
+  const times = audio.frameTimestamps;
+  if (times.length === 0) return 0;
+  const index = Math.min(times.length - 1, Math.max(0, Math.floor((offset * 1000) / audio.frameDurationMs)));
+  return times[index];
+}
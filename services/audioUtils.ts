@@ -1,6 +1,6 @@
 import { Blob } from '@google/genai';
 
-export function createPcmBlob(data: Float32Array, sampleRate: number): Blob {
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -11,8 +11,16 @@ export function createPcmBlob(data: Float32Array, sampleRate: number): Blob {
     // Scale to Int16 range
     int16[i] = val < 0 ? val * 0x8000 : val * 0x7FFF;
   }
+  return int16;
+}
+
+export function pcmToBase64(pcm: Int16Array): string {
+  return arrayBufferToBase64(pcm.buffer as ArrayBuffer);
+}
+
+export function createPcmBlob(data: Float32Array, sampleRate: number): Blob {
   return {
-    data: arrayBufferToBase64(int16.buffer),
+    data: pcmToBase64(floatTo16BitPcm(data)),
     mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
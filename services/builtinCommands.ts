@@ -0,0 +1,215 @@
+import { Type } from '@google/genai';
+import { CommandHandler, CommandRegistry } from './commandRegistry';
+
+// Local command handlers available out of the box. Todos and notes are kept
+// in localStorage; timers and stopwatches live for the lifetime of the page.
+
+const TODO_STORAGE_KEY = 'gemini-live-monitor.todos';
+const NOTE_STORAGE_KEY = 'gemini-live-monitor.notes';
+
+export interface TodoItem {
+  id: string;
+  text: string;
+  createdAt: number;
+  done: boolean;
+}
+
+export interface NoteItem {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, items: T[]) {
+  localStorage.setItem(key, JSON.stringify(items));
+}
+
+export const loadTodos = () => readList<TodoItem>(TODO_STORAGE_KEY);
+export const loadNotes = () => readList<NoteItem>(NOTE_STORAGE_KEY);
+
+// Surfaces timer expiry: desktop notification when permitted, console otherwise
+function notify(message: string) {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification('Gemini Monitor', { body: message });
+  } else {
+    console.info(`[timer] ${message}`);
+  }
+}
+
+function formatSeconds(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.round(totalSeconds % 60);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+const setTimerCommand: CommandHandler = {
+  declaration: {
+    name: 'set_timer',
+    description: 'Start a countdown timer that alerts the user when it ends.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        duration_seconds: { type: Type.NUMBER, description: 'Timer length in seconds.' },
+        label: { type: Type.STRING, description: 'Optional short label for the timer.' },
+      },
+      required: ['duration_seconds'],
+    },
+  },
+  execute: (args) => {
+    const seconds = Number(args.duration_seconds);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new Error('duration_seconds must be a positive number');
+    }
+    const label = typeof args.label === 'string' && args.label.trim() ? args.label.trim() : 'Timer';
+
+    // Ask up front so the alert can be shown when the timer ends
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+    setTimeout(() => notify(`${label} finished (${formatSeconds(seconds)})`), seconds * 1000);
+
+    const endsAt = new Date(Date.now() + seconds * 1000);
+    return {
+      output: `${label} set for ${formatSeconds(seconds)} (ends ${endsAt.toLocaleTimeString()})`,
+      data: { endsAt: endsAt.toISOString() },
+    };
+  },
+};
+
+const addTodoCommand: CommandHandler = {
+  declaration: {
+    name: 'add_todo',
+    description: "Add an item to the user's todo list.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The todo item, phrased as a short task.' },
+      },
+      required: ['text'],
+    },
+  },
+  execute: (args) => {
+    const text = String(args.text ?? '').trim();
+    if (!text) throw new Error('text is required');
+
+    const todos = loadTodos();
+    todos.push({ id: crypto.randomUUID(), text, createdAt: Date.now(), done: false });
+    writeList(TODO_STORAGE_KEY, todos);
+
+    const open = todos.filter(t => !t.done).length;
+    return { output: `Added "${text}" to your todo list (${open} open)`, data: { openCount: open } };
+  },
+};
+
+const listTodosCommand: CommandHandler = {
+  declaration: {
+    name: 'list_todos',
+    description: "Read back the open items on the user's todo list.",
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+  execute: () => {
+    const open = loadTodos().filter(t => !t.done);
+    if (open.length === 0) return { output: 'Your todo list is empty', data: { items: [] } };
+    return {
+      output: open.map((t, i) => `${i + 1}. ${t.text}`).join('\n'),
+      data: { items: open.map(t => t.text) },
+    };
+  },
+};
+
+const takeNoteCommand: CommandHandler = {
+  declaration: {
+    name: 'take_note',
+    description: 'Save a note for the user to read later.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The content of the note.' },
+      },
+      required: ['text'],
+    },
+  },
+  execute: (args) => {
+    const text = String(args.text ?? '').trim();
+    if (!text) throw new Error('text is required');
+
+    const notes = loadNotes();
+    notes.push({ id: crypto.randomUUID(), text, createdAt: Date.now() });
+    writeList(NOTE_STORAGE_KEY, notes);
+    return { output: `Noted: "${text}"`, data: { noteCount: notes.length } };
+  },
+};
+
+// Named stopwatches; start times in ms since epoch
+const stopwatches = new Map<string, number>();
+
+const stopwatchName = (args: Record<string, unknown>) =>
+  (typeof args.name === 'string' && args.name.trim() ? args.name.trim() : 'default').toLowerCase();
+
+const startStopwatchCommand: CommandHandler = {
+  declaration: {
+    name: 'start_stopwatch',
+    description: 'Start (or restart) a named stopwatch.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Name of the stopwatch, e.g. "standup".' },
+      },
+    },
+  },
+  execute: (args) => {
+    const name = stopwatchName(args);
+    const restarted = stopwatches.has(name);
+    stopwatches.set(name, Date.now());
+    return { output: `${restarted ? 'Restarted' : 'Started'} stopwatch "${name}"` };
+  },
+};
+
+const stopStopwatchCommand: CommandHandler = {
+  declaration: {
+    name: 'stop_stopwatch',
+    description: 'Stop a named stopwatch and report the elapsed time.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Name of the stopwatch to stop.' },
+      },
+    },
+  },
+  execute: (args) => {
+    const name = stopwatchName(args);
+    const startedAt = stopwatches.get(name);
+    if (startedAt === undefined) throw new Error(`No stopwatch named "${name}" is running`);
+
+    stopwatches.delete(name);
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    return {
+      output: `Stopwatch "${name}" stopped at ${formatSeconds(elapsedSeconds)}`,
+      data: { elapsedSeconds },
+    };
+  },
+};
+
+export const BUILTIN_COMMANDS: CommandHandler[] = [
+  setTimerCommand,
+  addTodoCommand,
+  listTodosCommand,
+  takeNoteCommand,
+  startStopwatchCommand,
+  stopStopwatchCommand,
+];
+
+export function createBuiltinCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  BUILTIN_COMMANDS.forEach(command => registry.register(command));
+  return registry;
+}
@@ -0,0 +1,100 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { REPORT_INTENT_TOOL_NAME } from './intentTaxonomy';
+import { REPORT_SPEAKER_TOOL } from './speakers';
+import { REPORT_TRANSLATION_TOOL } from './translation';
+import { SEARCH_KNOWLEDGE_TOOL } from './knowledgeBase';
+
+export interface CommandResult {
+  // Short human-readable outcome, shown on the intent card and returned to the model
+  output: string;
+  // Optional structured data returned to the model alongside the output
+  data?: Record<string, unknown>;
+}
+
+export interface CommandHandler {
+  declaration: FunctionDeclaration;
+  execute: (args: Record<string, unknown>) => CommandResult | Promise<CommandResult>;
+}
+
+// Every command declaration gets this parameter so the intent card can show
+// what was actually said, not just the parsed arguments.
+export const UTTERANCE_PARAM = 'utterance';
+
+// Tools LiveManager declares and handles itself. A command with one of these
+// names would be declared twice and its calls would never reach it.
+export const BUILTIN_TOOL_NAMES: readonly string[] = [
+  REPORT_INTENT_TOOL_NAME,
+  REPORT_SPEAKER_TOOL.name!,
+  REPORT_TRANSLATION_TOOL.name!,
+  SEARCH_KNOWLEDGE_TOOL.name!,
+];
+
+export class CommandRegistry {
+  private handlers = new Map<string, CommandHandler>();
+
+  public register(handler: CommandHandler) {
+    const name = handler.declaration.name;
+    if (!name) throw new Error('Command declaration must have a name');
+    if (BUILTIN_TOOL_NAMES.includes(name)) throw new Error(`'${name}' is reserved`);
+    this.handlers.set(name, handler);
+  }
+
+  public unregister(name: string) {
+    this.handlers.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  public get names(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  // Declarations as sent to the model, with the utterance parameter added.
+  // `enabled` limits them to a subset of the registered commands.
+  public getDeclarations(enabled: string[] = this.names): FunctionDeclaration[] {
+    return this.select(enabled).map(({ declaration }) => {
+      const parameters = declaration.parameters ?? { type: Type.OBJECT };
+      return {
+        ...declaration,
+        parameters: {
+          ...parameters,
+          properties: {
+            ...parameters.properties,
+            [UTTERANCE_PARAM]: { type: Type.STRING, description: "The speaker's exact words that triggered this command." },
+          },
+          required: [...(parameters.required ?? []), UTTERANCE_PARAM],
+        },
+      };
+    });
+  }
+
+  public async execute(name: string, args: Record<string, unknown>): Promise<CommandResult> {
+    const handler = this.handlers.get(name);
+    if (!handler) throw new Error(`Unknown command: ${name}`);
+    const { [UTTERANCE_PARAM]: _utterance, ...commandArgs } = args;
+    return handler.execute(commandArgs);
+  }
+
+  // System-instruction section describing the available commands
+  public buildInstruction(enabled: string[] = this.names): string {
+    const handlers = this.select(enabled);
+    if (handlers.length === 0) return '';
+    const lines = handlers
+      .map(({ declaration }) => `     - '${declaration.name}': ${declaration.description ?? ''}`)
+      .join('\n');
+
+    return `
+  **Commands**: The following local commands really execute on the user's device:
+${lines}
+  When an imperative matches one of these commands, call that command function INSTEAD of 'report_intent',
+  passing the speaker's exact words as '${UTTERANCE_PARAM}'. Never pretend to execute a command you cannot call;
+  report other imperatives with 'report_intent' as usual.
+`;
+  }
+
+  private select(enabled: string[]): CommandHandler[] {
+    return [...this.handlers.values()].filter(({ declaration }) => enabled.includes(declaration.name!));
+  }
+}
@@ -0,0 +1,56 @@
+import { PcmFrame } from './pcmCaptureWorklet';
+import { InputHealth } from '../types';
+
+// Samples this close to full scale count as clipped
+const CLIP_LEVEL = 32600;
+// How long a clipping warning stays up after the last clipped frame
+const CLIP_HOLD_MS = 2000;
+// Nothing louder than this for a while: a pause in conversation doesn't last
+// that long, a mic that is too far away or turned down does
+const QUIET_DB = -50;
+const QUIET_AFTER_MS = 8000;
+// Exact digital silence usually means a muted or disconnected device
+const SILENT_AFTER_MS = 2000;
+
+const frameMs = (frame: PcmFrame) => (frame.pcm.length / frame.sampleRate) * 1000;
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-8));
+
+// Watches captured frames for clipping, a signal too quiet to transcribe, and
+// dead silence. Reports only changes, so callers can forward them directly.
+export class InputHealthMonitor {
+  private health: InputHealth = 'ok';
+  private sinceClipMs = Infinity;
+  private quietMs = 0;
+  private silentMs = 0;
+
+  public reset() {
+    this.health = 'ok';
+    this.sinceClipMs = Infinity;
+    this.quietMs = 0;
+    this.silentMs = 0;
+  }
+
+  // Returns the new health when it changed, otherwise null
+  public push(frame: PcmFrame): InputHealth | null {
+    const ms = frameMs(frame);
+
+    let peak = 0;
+    for (let i = 0; i < frame.pcm.length; i++) {
+      const v = Math.abs(frame.pcm[i]);
+      if (v > peak) peak = v;
+    }
+
+    this.sinceClipMs = peak >= CLIP_LEVEL ? 0 : this.sinceClipMs + ms;
+    this.silentMs = peak === 0 ? this.silentMs + ms : 0;
+    this.quietMs = toDb(frame.rms) < QUIET_DB ? this.quietMs + ms : 0;
+
+    let next: InputHealth = 'ok';
+    if (this.sinceClipMs < CLIP_HOLD_MS) next = 'clipping';
+    else if (this.silentMs >= SILENT_AFTER_MS) next = 'silent';
+    else if (this.quietMs >= QUIET_AFTER_MS) next = 'tooQuiet';
+
+    if (next === this.health) return null;
+    this.health = next;
+    return next;
+  }
+}
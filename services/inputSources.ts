@@ -0,0 +1,242 @@
+import { floatTo16BitPcm, pcmToBase64 } from './audioUtils';
+import { FRAME_MS, frameSizeFor, PcmFrame, TARGET_SAMPLE_RATE } from './pcmCaptureWorklet';
+import { MicrophoneSettings } from '../types';
+
+// Where captured audio comes from. Live sources hand LiveManager an AudioNode
+// to feed into the capture worklet; file sources are resampled up front and
+// push ready-made frames themselves, which lets them run faster than real time.
+
+export type InputSourceKind = 'microphone' | 'display' | 'file';
+
+export interface InputSourceHandle {
+  // Node to connect to the capture worklet; absent when the source pushes frames itself
+  node?: AudioNode;
+  // Node carrying the same audio for analysis only, when there is no capture node
+  monitor?: AudioNode;
+  // Sources that push frames on their own clock stop and continue it here;
+  // node sources are paused by suspending the context
+  pause?(): void;
+  resume?(): void;
+  stop(): void;
+}
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  readonly label: string;
+  // Source to switch to when this one ends unexpectedly (e.g. a device is unplugged)
+  fallback?(): InputSource;
+  open(
+    ctx: AudioContext,
+    onFrame: (frame: PcmFrame) => void,
+    onEnded: () => void,
+    // Rate of the frames a self-pushing source emits; node sources are resampled by the worklet
+    sampleRate?: number
+  ): Promise<InputSourceHandle>;
+}
+
+function streamHandle(ctx: AudioContext, stream: MediaStream): InputSourceHandle {
+  const node = ctx.createMediaStreamSource(stream);
+  return {
+    node,
+    stop: () => {
+      node.disconnect();
+      stream.getTracks().forEach(t => t.stop());
+    },
+  };
+}
+
+const MICROPHONE_STORAGE_KEY = 'gemini-live-monitor.microphone';
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  try {
+    const raw = localStorage.getItem(MICROPHONE_STORAGE_KEY);
+    return raw ? { ...DEFAULT_MICROPHONE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_MICROPHONE_SETTINGS;
+  } catch {
+    return DEFAULT_MICROPHONE_SETTINGS;
+  }
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings) {
+  localStorage.setItem(MICROPHONE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Labels are empty until the page has been granted microphone access once
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default' && d.deviceId !== 'communications');
+}
+
+export class MicrophoneSource implements InputSource {
+  public readonly kind = 'microphone';
+  // The device's own name once it is open
+  public label = 'Microphone';
+
+  constructor(public readonly settings: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS) {}
+
+  public async open(ctx: AudioContext, _onFrame: (frame: PcmFrame) => void, onEnded: () => void) {
+    const { deviceId, echoCancellation, noiseSuppression, autoGainControl } = this.settings;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...(deviceId && { deviceId: { exact: deviceId } }),
+        echoCancellation,
+        noiseSuppression,
+        autoGainControl,
+      },
+    });
+    const track = stream.getAudioTracks()[0];
+    if (track?.label) this.label = track.label;
+    track?.addEventListener('ended', onEnded);
+    return streamHandle(ctx, stream);
+  }
+
+  // Whatever the system now considers the default device
+  public fallback(): InputSource {
+    return new MicrophoneSource({ ...this.settings, deviceId: null });
+  }
+}
+
+// Audio from another tab, window or the whole system, via screen sharing
+export class DisplayAudioSource implements InputSource {
+  public readonly kind = 'display';
+  public readonly label = 'Tab / system audio';
+
+  public async open(ctx: AudioContext, _onFrame: (frame: PcmFrame) => void, onEnded: () => void) {
+    // Browsers require video to be requested alongside audio; it is discarded
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    stream.getVideoTracks().forEach(t => t.stop());
+
+    const audioTrack = stream.getAudioTracks()[0];
+    if (!audioTrack) {
+      stream.getTracks().forEach(t => t.stop());
+      throw new Error('No audio was shared. Pick a tab and enable "Share tab audio" (or system audio).');
+    }
+    // Fires when the user clicks the browser's "Stop sharing"
+    audioTrack.addEventListener('ended', onEnded);
+    return streamHandle(ctx, new MediaStream([audioTrack]));
+  }
+}
+
+// Decodes an uploaded recording and streams it at `speed` times real time
+export class AudioFileSource implements InputSource {
+  public readonly kind = 'file';
+  public readonly label: string;
+
+  constructor(private file: File, private speed = 1) {
+    this.label = `${file.name}${speed !== 1 ? ` (${speed}×)` : ''}`;
+  }
+
+  public async open(
+    ctx: AudioContext,
+    onFrame: (frame: PcmFrame) => void,
+    onEnded: () => void,
+    sampleRate = TARGET_SAMPLE_RATE
+  ) {
+    const decoded = await ctx.decodeAudioData(await this.file.arrayBuffer());
+    const channels = await resample(decoded, sampleRate);
+    const samples = downmix(channels);
+
+    const frameSize = frameSizeFor(sampleRate);
+    const frameCount = Math.ceil(samples.length / frameSize);
+    const frameMs = FRAME_MS;
+    // Play the decoded file at the same pace into a node the visualizer can
+    // analyse; it is never connected to the speakers
+    const monitor = ctx.createBufferSource();
+    monitor.buffer = decoded;
+    monitor.playbackRate.value = this.speed;
+    monitor.start();
+
+    let startedAt = performance.now();
+    let pausedAt: number | null = null;
+    let next = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // Emit every frame that is due, then sleep until the next one. Scheduling
+    // against the start time keeps the pace from drifting with timer jitter.
+    const pump = () => {
+      const due = Math.min(frameCount, Math.floor(((performance.now() - startedAt) * this.speed) / frameMs) + 1);
+      for (; next < due; next++) {
+        const [from, to] = [next * frameSize, (next + 1) * frameSize];
+        onFrame(toFrame(samples.subarray(from, to), channels.map(c => c.subarray(from, to)), sampleRate));
+      }
+      if (next >= frameCount) {
+        timer = null;
+        onEnded();
+        return;
+      }
+      timer = setTimeout(pump, frameMs / this.speed);
+    };
+    pump();
+
+    return {
+      monitor,
+      pause: () => {
+        if (pausedAt !== null || !timer) return;
+        pausedAt = performance.now();
+        clearTimeout(timer);
+        timer = null;
+      },
+      // The time spent paused is added to the start, so the pace picks up where it left off
+      resume: () => {
+        if (pausedAt === null) return;
+        startedAt += performance.now() - pausedAt;
+        pausedAt = null;
+        pump();
+      },
+      stop: () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        pausedAt = null;
+        monitor.stop();
+        monitor.disconnect();
+      },
+    };
+  }
+}
+
+// Let the browser's resampler do the work: render through an OfflineAudioContext.
+// Channels are kept separate so channel-split recordings can be attributed.
+async function resample(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array[]> {
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return Array.from({ length: rendered.numberOfChannels }, (_, c) => rendered.getChannelData(c));
+}
+
+function downmix(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+const rmsOf = (chunk: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < chunk.length; i++) {
+    sum += chunk[i] * chunk[i];
+  }
+  return Math.sqrt(sum / chunk.length);
+};
+
+function toFrame(chunk: Float32Array, channelChunks: Float32Array[], sampleRate: number): PcmFrame {
+  const pcm = floatTo16BitPcm(chunk);
+  return {
+    data: pcmToBase64(pcm),
+    pcm,
+    sampleRate,
+    rms: rmsOf(chunk),
+    ...(channelChunks.length > 1 && { channelRms: channelChunks.map(rmsOf) }),
+  };
+}
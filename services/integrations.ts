@@ -0,0 +1,355 @@
+import { IntegrationEvent, IntegrationEventType, IntegrationSettings, IntegrationSinkKind } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.integrations';
+const QUEUE_KEY = 'gemini-live-monitor.webhookQueue';
+
+// Identifies our messages among whatever else the host page receives
+export const POST_MESSAGE_SOURCE = 'gemini-live-monitor';
+
+export const INTEGRATION_EVENT_TYPES: { type: Exclude<IntegrationEventType, 'test'>; label: string }[] = [
+  { type: 'session.started', label: 'Session started' },
+  { type: 'session.ended', label: 'Session ended' },
+  { type: 'segment.finalized', label: 'Transcript segment finalized' },
+  { type: 'intent.detected', label: 'Intent detected' },
+  { type: 'report.generated', label: 'Session report generated' },
+  { type: 'watch.alert', label: 'Watchlist alert' },
+];
+
+export const DEFAULT_INTEGRATION_SETTINGS: IntegrationSettings = {
+  events: ['session.started', 'session.ended', 'intent.detected', 'report.generated'],
+  webhook: { enabled: false, url: '', secret: '' },
+  postMessage: { enabled: false, targetOrigin: '*' },
+  broadcast: { enabled: false, channelName: 'gemini-live-monitor' },
+};
+
+// Webhook delivery: a few quick retries, then the event waits in the queue
+// (which survives reloads) and the queue is retried periodically
+const WEBHOOK_RETRY_DELAYS_MS = [1000, 3000, 10000];
+const QUEUE_RETRY_MS = 30000;
+const MAX_QUEUED_EVENTS = 500;
+// Browsers refuse keepalive requests over 64 kB, so only smaller bodies may
+// outlive the page
+const KEEPALIVE_MAX_BYTES = 60 * 1024;
+
+export interface SinkStatus {
+  lastDeliveredAt?: number;
+  lastError?: string;
+  queued?: number; // Webhook only: events waiting for delivery
+}
+
+export function loadIntegrationSettings(): IntegrationSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_INTEGRATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_INTEGRATION_SETTINGS;
+  } catch {
+    return DEFAULT_INTEGRATION_SETTINGS;
+  }
+}
+
+export function saveIntegrationSettings(settings: IntegrationSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Returns a list of human-readable problems; empty when the settings are usable
+export function validateIntegrationSettings(settings: IntegrationSettings): string[] {
+  const problems: string[] = [];
+  if (settings.webhook.enabled && !/^https?:\/\/\S+$/.test(settings.webhook.url.trim())) {
+    problems.push('Webhook URL must start with http:// or https://.');
+  }
+  if (settings.postMessage.enabled && settings.postMessage.targetOrigin !== '*') {
+    try {
+      new URL(settings.postMessage.targetOrigin);
+    } catch {
+      problems.push('Target origin must be * or an origin such as https://example.com.');
+    }
+  }
+  if (settings.broadcast.enabled && !settings.broadcast.channelName.trim()) {
+    problems.push('Broadcast channel name is required.');
+  }
+  return problems;
+}
+
+type EventBody<E = IntegrationEvent> = E extends IntegrationEvent ? Omit<E, 'id' | 'sessionId' | 'timestamp'> : never;
+
+export function createEvent(sessionId: string, body: EventBody): IntegrationEvent {
+  return { id: crypto.randomUUID(), sessionId, timestamp: Date.now(), ...body } as IntegrationEvent;
+}
+
+// The receiver rejected the event itself; sending it again won't help
+class PermanentDeliveryError extends Error {}
+
+async function postWebhook(url: string, secret: string, event: IntegrationEvent) {
+  const body = JSON.stringify(event);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secret && { 'X-Webhook-Secret': secret }),
+      },
+      body,
+      keepalive: new Blob([body]).size <= KEEPALIVE_MAX_BYTES,
+    });
+  } catch (err) {
+    // fetch rejects with a TypeError when the request got no response; any
+    // other error is about the request itself and would happen again
+    if (err instanceof TypeError) throw err;
+    throw new PermanentDeliveryError(err instanceof Error ? err.message : String(err));
+  }
+  if (response.ok) return;
+  const message = `Webhook responded ${response.status} ${response.statusText}`.trim();
+  const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+  throw retryable ? new Error(message) : new PermanentDeliveryError(message);
+}
+
+function postToParent(targetOrigin: string, event: IntegrationEvent) {
+  if (window.parent === window) {
+    throw new Error('The app is not embedded in another page');
+  }
+  window.parent.postMessage({ source: POST_MESSAGE_SOURCE, event }, targetOrigin);
+}
+
+function broadcast(channelName: string, event: IntegrationEvent) {
+  const channel = new BroadcastChannel(channelName);
+  channel.postMessage(event);
+  channel.close();
+}
+
+// Sends one test event straight to a sink, bypassing the event filter and the
+// webhook queue. Rejects with the reason when it can't be delivered.
+export async function sendTestEvent(kind: IntegrationSinkKind, settings: IntegrationSettings) {
+  const event = createEvent('test', { type: 'test', message: 'Test event from Gemini Live Monitor' });
+  switch (kind) {
+    case 'webhook': return postWebhook(settings.webhook.url.trim(), settings.webhook.secret, event);
+    case 'postMessage': return postToParent(settings.postMessage.targetOrigin, event);
+    case 'broadcast': return broadcast(settings.broadcast.channelName, event);
+  }
+}
+
+interface IntegrationSink {
+  readonly kind: IntegrationSinkKind;
+  send(event: IntegrationEvent): void;
+  close(): void;
+}
+
+// What a closed webhook sink passes to its replacement: the queue itself, and
+// a promise that settles once the delivery it had in flight (the queue's head)
+// has finished and been removed from the queue if it went through
+interface WebhookHandover {
+  queue: IntegrationEvent[];
+  idle: Promise<void>;
+}
+
+// Delivers events in order. Anything that can't be delivered right away (or
+// while older events are still waiting) goes to a persisted queue that is
+// flushed when the browser comes back online and periodically after failures.
+class WebhookSink implements IntegrationSink {
+  public readonly kind = 'webhook';
+  private queue: IntegrationEvent[];
+  private flushing: Promise<void> | null = null;
+  // Until the previous sink's delivery settles, its event is still in flight
+  private waitingFor: Promise<void> | null = null;
+  private closed = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private url: string,
+    private secret: string,
+    private onStatus: (patch: SinkStatus) => void,
+    handover?: WebhookHandover
+  ) {
+    this.queue = handover?.queue ?? loadQueue();
+    window.addEventListener('online', this.handleOnline);
+    this.onStatus({ queued: this.queue.length });
+    if (handover) {
+      this.waitingFor = handover.idle.then(() => {
+        this.waitingFor = null;
+        this.flush();
+      });
+    } else {
+      this.flush();
+    }
+  }
+
+  public send(event: IntegrationEvent) {
+    this.queue.push(event);
+    // The head may be on its way out; evicting it would send it and lose the next one
+    if (this.queue.length > MAX_QUEUED_EVENTS) this.queue.splice(this.flushing || this.waitingFor ? 1 : 0, 1);
+    this.persist();
+    this.flush();
+  }
+
+  public close() {
+    this.closed = true;
+    window.removeEventListener('online', this.handleOnline);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+  }
+
+  // Closes the sink and gives its queue to a replacement
+  public handOver(): WebhookHandover {
+    this.close();
+    return { queue: this.queue, idle: this.flushing ?? this.waitingFor ?? Promise.resolve() };
+  }
+
+  private handleOnline = () => this.flush();
+
+  private flush() {
+    if (this.flushing || this.waitingFor || this.closed || !navigator.onLine) return;
+    this.flushing = this.drain().finally(() => {
+      this.flushing = null;
+      // Events sent while the drain was wrapping up; after a failure the retry timer takes over
+      if (this.queue.length > 0 && !this.retryTimer) this.flush();
+    });
+  }
+
+  private async drain() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    while (this.queue.length > 0 && !this.closed) {
+      const event = this.queue[0];
+      try {
+        await this.deliver(event);
+        this.onStatus({ lastDeliveredAt: Date.now(), lastError: undefined });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (!(err instanceof PermanentDeliveryError)) {
+          // Left at the head, for this sink's next flush or its replacement
+          if (this.closed) return;
+          console.warn(`Webhook delivery failed, ${this.queue.length} event(s) queued`, err);
+          this.onStatus({ lastError: message });
+          this.retryTimer = setTimeout(() => this.flush(), QUEUE_RETRY_MS);
+          return;
+        }
+        console.error('Webhook rejected event; dropping it', event, err);
+        this.onStatus({ lastError: message });
+      }
+      // Even once closed: the replacement waits for this before sending the head again
+      this.queue.shift();
+      this.persist();
+    }
+  }
+
+  private async deliver(event: IntegrationEvent) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await postWebhook(this.url, this.secret, event);
+        return;
+      } catch (err) {
+        const exhausted = attempt >= WEBHOOK_RETRY_DELAYS_MS.length;
+        if (err instanceof PermanentDeliveryError || exhausted || !navigator.onLine || this.closed) throw err;
+        await new Promise(resolve => setTimeout(resolve, WEBHOOK_RETRY_DELAYS_MS[attempt]));
+      }
+    }
+  }
+
+  private persist() {
+    saveQueue(this.queue);
+    this.onStatus({ queued: this.queue.length });
+  }
+}
+
+function loadQueue(): IntegrationEvent[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(queue: IntegrationEvent[]) {
+  if (queue.length === 0) localStorage.removeItem(QUEUE_KEY);
+  else localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+}
+
+class PostMessageSink implements IntegrationSink {
+  public readonly kind = 'postMessage';
+
+  constructor(private targetOrigin: string, private onStatus: (patch: SinkStatus) => void) {}
+
+  public send(event: IntegrationEvent) {
+    try {
+      postToParent(this.targetOrigin, event);
+      this.onStatus({ lastDeliveredAt: Date.now(), lastError: undefined });
+    } catch (err) {
+      this.onStatus({ lastError: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  public close() {}
+}
+
+class BroadcastSink implements IntegrationSink {
+  public readonly kind = 'broadcast';
+  private channel: BroadcastChannel;
+
+  constructor(channelName: string, private onStatus: (patch: SinkStatus) => void) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  public send(event: IntegrationEvent) {
+    this.channel.postMessage(event);
+    this.onStatus({ lastDeliveredAt: Date.now(), lastError: undefined });
+  }
+
+  public close() {
+    this.channel.close();
+  }
+}
+
+// Fans events out to the enabled sinks. A failing sink never affects the others
+// or the monitor itself; problems surface through `onStatusChange`.
+export class IntegrationHub {
+  private settings: IntegrationSettings = DEFAULT_INTEGRATION_SETTINGS;
+  private sinks: IntegrationSink[] = [];
+  private statuses: Partial<Record<IntegrationSinkKind, SinkStatus>> = {};
+
+  public onStatusChange: (kind: IntegrationSinkKind, status: SinkStatus) => void = () => {};
+
+  public configure(settings: IntegrationSettings) {
+    // The webhook queue carries over, including an event still being delivered
+    const previous = this.sinks.find((sink): sink is WebhookSink => sink instanceof WebhookSink);
+    const handover = previous?.handOver();
+    this.close();
+    this.settings = settings;
+    const { webhook, postMessage, broadcast } = settings;
+    if (webhook.enabled && webhook.url.trim()) {
+      this.sinks.push(new WebhookSink(webhook.url.trim(), webhook.secret, this.reporter('webhook'), handover));
+    }
+    if (postMessage.enabled) {
+      this.sinks.push(new PostMessageSink(postMessage.targetOrigin, this.reporter('postMessage')));
+    }
+    if (broadcast.enabled && broadcast.channelName.trim()) {
+      this.sinks.push(new BroadcastSink(broadcast.channelName.trim(), this.reporter('broadcast')));
+    }
+  }
+
+  public publish(sessionId: string, body: EventBody) {
+    if (this.sinks.length === 0 || !this.settings.events.includes(body.type)) return;
+    const event = createEvent(sessionId, body);
+    this.sinks.forEach(sink => {
+      try {
+        sink.send(event);
+      } catch (err) {
+        console.error(`Integration sink ${sink.kind} failed`, err);
+      }
+    });
+  }
+
+  public close() {
+    this.sinks.forEach(sink => sink.close());
+    this.sinks = [];
+  }
+
+  private reporter(kind: IntegrationSinkKind) {
+    return (patch: SinkStatus) => {
+      const status = { ...this.statuses[kind], ...patch };
+      this.statuses[kind] = status;
+      this.onStatusChange(kind, status);
+    };
+  }
+}
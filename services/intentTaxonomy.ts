@@ -0,0 +1,184 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { IntentCategory, IntentType } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.intentCategories';
+
+export const DEFAULT_SYSTEM_INSTRUCTION = 'You are a dedicated Conversation Monitor and Assistant.';
+
+export const REPORT_INTENT_TOOL_NAME = 'report_intent';
+
+export const DEFAULT_CATEGORIES: IntentCategory[] = [
+  {
+    name: IntentType.QUESTION,
+    description: 'The speaker asks a question that expects an answer.',
+    color: 'blue',
+    icon: 'question',
+    wantsAnswer: true,
+  },
+  {
+    name: IntentType.IMPERATIVE,
+    description: 'The speaker issues an imperative command or request to do something.',
+    color: 'amber',
+    icon: 'bolt',
+    wantsAnswer: true,
+  },
+];
+
+// Ready-made categories offered in the editor
+export const SUGGESTED_CATEGORIES: IntentCategory[] = [
+  {
+    name: 'DECISION',
+    description: 'The group agrees on or announces a decision.',
+    color: 'green',
+    icon: 'check',
+    wantsAnswer: false,
+  },
+  {
+    name: 'ACTION_ITEM',
+    description: 'Someone commits to, or is assigned, a concrete task to do later.',
+    color: 'purple',
+    icon: 'flag',
+    wantsAnswer: false,
+  },
+  {
+    name: 'RISK',
+    description: 'A potential problem, risk or concern is raised.',
+    color: 'rose',
+    icon: 'warning',
+    wantsAnswer: false,
+  },
+  {
+    name: 'BLOCKER',
+    description: 'Someone reports being blocked or unable to make progress.',
+    color: 'red',
+    icon: 'stop',
+    wantsAnswer: false,
+  },
+];
+
+const NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+// Returns a list of human-readable problems; empty when the taxonomy is usable
+export function validateCategories(categories: IntentCategory[]): string[] {
+  const problems: string[] = [];
+  if (categories.length === 0) {
+    problems.push('Define at least one category.');
+  }
+
+  const seen = new Set<string>();
+  categories.forEach((category, i) => {
+    const label = category.name || `Category ${i + 1}`;
+    if (!NAME_PATTERN.test(category.name)) {
+      problems.push(`${label}: name must be UPPER_SNAKE_CASE (letters, digits, underscores).`);
+    }
+    if (seen.has(category.name)) {
+      problems.push(`${label}: name is used more than once.`);
+    }
+    seen.add(category.name);
+    if (!category.description.trim()) {
+      problems.push(`${label}: description is required so the model knows what to look for.`);
+    }
+  });
+  return problems;
+}
+
+export function loadCategories(): IntentCategory[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CATEGORIES;
+    const parsed = JSON.parse(raw) as IntentCategory[];
+    return Array.isArray(parsed) && validateCategories(parsed).length === 0 ? parsed : DEFAULT_CATEGORIES;
+  } catch {
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+export function saveCategories(categories: IntentCategory[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(categories));
+}
+
+export function buildReportIntentTool(
+  categories: IntentCategory[],
+  withSpeaker = false,
+  withOriginal = false,
+  withSources = false
+): FunctionDeclaration {
+  const anyAnswers = categories.some(c => c.wantsAnswer);
+  return {
+    name: REPORT_INTENT_TOOL_NAME,
+    description: `Report a detected ${categories.map(c => c.name).join(', ')} in the conversation.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: {
+          type: Type.STRING,
+          description: 'The verbatim text of the speech that was detected.'
+        },
+        type: {
+          type: Type.STRING,
+          enum: categories.map(c => c.name),
+          description: 'The classification of the detected speech.'
+        },
+        ...(anyAnswers && {
+          answer: {
+            type: Type.STRING,
+            description: 'A concise, helpful answer or acknowledgment. Only for categories that want one.'
+          }
+        }),
+        ...(withSpeaker && {
+          speaker: {
+            type: Type.INTEGER,
+            description: 'Number of the speaker who said it, as reported with report_speaker.'
+          }
+        }),
+        ...(withOriginal && {
+          original_text: {
+            type: Type.STRING,
+            description: 'The speech exactly as spoken, before translation.'
+          }
+        }),
+        ...(withSources && {
+          sources: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Ids of the passages from 'search_knowledge_base' that the answer is based on."
+          }
+        })
+      },
+      required: ['text', 'type']
+    }
+  };
+}
+
+const SILENT_RESPONSE = `
+  Do not generate spoken audio responses for these interactions; rely solely on the tool to convey the answer.`;
+
+const SPOKEN_RESPONSE = `
+  After calling the tool for a category that wants an answer, also say the answer out loud in one or two short sentences.
+  Stay silent for everything else, and stop speaking as soon as someone talks over you.`;
+
+// `role` is the user-editable opening (who the model is, what kind of meeting);
+// the category and reporting rules are always generated
+export function buildSystemInstruction(
+  categories: IntentCategory[],
+  speakAnswers = false,
+  role = DEFAULT_SYSTEM_INSTRUCTION
+): string {
+  const categoryLines = categories
+    .map(c => `     - **${c.name}**: ${c.description}${c.wantsAnswer ? ' Provide a concise answer or acknowledgment.' : ' No answer is needed.'}`)
+    .join('\n');
+
+  return `
+  ${role.trim()}
+
+  1. **Listen**: Monitor the user's audio stream.
+  2. **Analyze**: Detect speech that falls into one of these categories:
+${categoryLines}
+  3. **Report**: IMMEDIATELY call the tool 'report_intent' with:
+     - 'text': The speaker's exact words.
+     - 'type': One of ${categories.map(c => c.name).join(', ')}.
+     - 'answer': Your generated response, only for categories that ask for one.
+${speakAnswers ? SPOKEN_RESPONSE : SILENT_RESPONSE}
+  If there is silence or casual chatter that fits none of the categories, do nothing.
+`;
+}
@@ -0,0 +1,213 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { KnowledgeCitation, KnowledgeDocument, KnowledgePassage } from '../types';
+
+// Passages are built from whole paragraphs up to about this many characters;
+// a longer paragraph is cut at sentence ends
+const PASSAGE_TARGET_CHARS = 800;
+const PASSAGE_MAX_CHARS = 1200;
+// Passages returned to the model per search
+const SEARCH_LIMIT = 4;
+// Documents the system instruction lists by name
+const MAX_LISTED_DOCUMENTS = 20;
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+
+// PDFs and other formats need converting to text first
+export const KNOWLEDGE_FILE_EXTENSIONS = ['.md', '.markdown', '.txt', '.text'];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  ('a an and are as at be but by can do does for from has have how i if in into is it its me my of on or our so ' +
+   'than that the their them then there these they this to us was we were what when where which who why will with ' +
+   'would you your').split(' ')
+);
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+// Lowercased words without accents or stop words, with a plural "s" dropped
+// so "deploys" finds "deploy"
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Cuts at sentence ends where possible, and hard at PASSAGE_MAX_CHARS otherwise
+function splitLongParagraph(paragraph: string): string[] {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > PASSAGE_MAX_CHARS) {
+    const window = rest.slice(0, PASSAGE_MAX_CHARS);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    const cut = sentenceEnd > PASSAGE_TARGET_CHARS / 2 ? sentenceEnd + 1 : PASSAGE_MAX_CHARS;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Splits a document into passages. A Markdown heading always starts a new
+// passage and is remembered as the passage's heading; plain text is split by
+// paragraphs only.
+export function chunkDocument(document: KnowledgeDocument): KnowledgePassage[] {
+  const passages: KnowledgePassage[] = [];
+  let heading: string | undefined;
+  let current: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    passages.push({
+      id: `${document.id}#${passages.length}`,
+      documentId: document.id,
+      documentName: document.name,
+      ...(heading && { heading }),
+      text: current.join('\n\n'),
+    });
+    current = [];
+    length = 0;
+  };
+
+  const add = (paragraph: string) => {
+    for (const piece of splitLongParagraph(paragraph)) {
+      if (length > 0 && length + piece.length > PASSAGE_TARGET_CHARS) flush();
+      current.push(piece);
+      length += piece.length;
+    }
+  };
+
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) add(text);
+    paragraph = [];
+  };
+
+  for (const line of document.text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = line.match(HEADING);
+    if (match) {
+      endParagraph();
+      flush();
+      heading = match[1];
+    } else if (!line.trim()) {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+  flush();
+  return passages;
+}
+
+export const passageLabel = (passage: KnowledgePassage | KnowledgeCitation) =>
+  passage.heading ? `${passage.documentName} › ${passage.heading}` : passage.documentName;
+
+export const toCitation = (passage: KnowledgePassage): KnowledgeCitation => ({
+  passageId: passage.id,
+  documentName: passage.documentName,
+  ...(passage.heading && { heading: passage.heading }),
+  text: passage.text,
+});
+
+export interface KnowledgeHit {
+  passage: KnowledgePassage;
+  score: number;
+}
+
+// Keyword search over every passage of the given documents, ranked with BM25.
+// The document name and the passage's heading count as part of its text.
+export class KnowledgeIndex {
+  public readonly passages: KnowledgePassage[];
+  public readonly documentNames: string[];
+  private termCounts: Map<string, number>[];
+  private lengths: number[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(documents: KnowledgeDocument[]) {
+    this.documentNames = documents.map(d => d.name);
+    this.passages = documents.flatMap(chunkDocument);
+    this.termCounts = this.passages.map(passage => {
+      const counts = new Map<string, number>();
+      for (const term of tokenize(`${passageLabel(passage)}\n${passage.text}`)) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      counts.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1));
+      return counts;
+    });
+    this.lengths = this.termCounts.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+    this.averageLength = this.lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, this.lengths.length);
+  }
+
+  public get isEmpty(): boolean {
+    return this.passages.length === 0;
+  }
+
+  // Best first; passages sharing no term with the query are left out
+  public search(query: string, limit = SEARCH_LIMIT): KnowledgeHit[] {
+    const terms = [...new Set(tokenize(query))];
+    const total = this.passages.length;
+    const hits: KnowledgeHit[] = [];
+
+    this.termCounts.forEach((counts, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const count = counts.get(term);
+        if (!count) continue;
+        const frequency = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+        score += idf * (count * (K1 + 1)) / (count + K1 * (1 - B + B * (this.lengths[i] / this.averageLength)));
+      }
+      if (score > 0) hits.push({ passage: this.passages[i], score });
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Throws with a message fit for the user when the file can't be used
+export async function readKnowledgeFile(file: File): Promise<KnowledgeDocument> {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (!KNOWLEDGE_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error(`${file.name}: only Markdown and plain text files can be added; convert PDFs to text first.`);
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name}: larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`);
+  }
+  const text = await file.text();
+  if (!text.trim()) {
+    throw new Error(`${file.name}: the file is empty.`);
+  }
+  return { id: crypto.randomUUID(), name: file.name, text, addedAt: Date.now() };
+}
+
+export const SEARCH_KNOWLEDGE_TOOL: FunctionDeclaration = {
+  name: 'search_knowledge_base',
+  description: "Search the team's own documents for passages that help answer a question.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: {
+        type: Type.STRING,
+        description: 'The question, or its key terms.'
+      }
+    },
+    required: ['query']
+  }
+};
+
+export function buildKnowledgeInstruction(documentNames: string[]): string {
+  const listed = documentNames.slice(0, MAX_LISTED_DOCUMENTS).join(', ');
+  const more = documentNames.length > MAX_LISTED_DOCUMENTS ? ` and ${documentNames.length - MAX_LISTED_DOCUMENTS} more` : '';
+  return `
+  **Knowledge base**: The team's own documents can be searched (${listed}${more}).
+     - Before answering a QUESTION, call 'search_knowledge_base' with the question or its key terms.
+     - When the passages returned are relevant, base the answer on them and put the ids of the passages you used in 'sources' when calling 'report_intent'.
+     - When nothing relevant comes back, answer from general knowledge and leave 'sources' out.
+`;
+}
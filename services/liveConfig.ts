@@ -0,0 +1,139 @@
+import { BUILTIN_COMMANDS } from './builtinCommands';
+import { PREBUILT_VOICES } from './answerPlayback';
+import { TARGET_SAMPLE_RATE } from './pcmCaptureWorklet';
+import { DEFAULT_TRANSLATION_SETTINGS, validateTranslation } from './translation';
+import { LIVE_MODELS } from '../server/models.mjs';
+import { DEFAULT_SYSTEM_INSTRUCTION } from './intentTaxonomy';
+import { TranslationSettings } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.liveConfig';
+
+// Everything LiveManager sends when it opens a session. Intent categories,
+// gating and speaker settings have their own menus and are passed separately.
+export interface LiveManagerConfig {
+  model: string;
+  voice: string;
+  inputSampleRate: number;   // Rate the captured audio is resampled to before sending
+  systemInstruction: string; // Role and meeting context; category and tool instructions are appended
+  commands: string[];        // Local commands offered to the model as tools
+  translation: TranslationSettings;
+}
+
+export interface LiveConfigPreset {
+  id: string;
+  label: string;
+  description: string;
+  config: LiveManagerConfig;
+}
+
+// The relay only issues tokens for these
+export { LIVE_MODELS } from '../server/models.mjs';
+
+// The Live API resamples whatever it is sent; 16kHz is its native input rate
+export const INPUT_SAMPLE_RATES = [8000, 16000, 24000, 48000];
+
+export { DEFAULT_SYSTEM_INSTRUCTION } from './intentTaxonomy';
+
+export const DEFAULT_LIVE_CONFIG: LiveManagerConfig = {
+  model: LIVE_MODELS[0],
+  voice: 'Puck',
+  inputSampleRate: TARGET_SAMPLE_RATE,
+  systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+  commands: BUILTIN_COMMANDS.map(c => c.declaration.name!),
+  translation: DEFAULT_TRANSLATION_SETTINGS,
+};
+
+export const LIVE_CONFIG_PRESETS: LiveConfigPreset[] = [
+  {
+    id: 'default',
+    label: 'General monitoring',
+    description: 'Any conversation, all local commands available.',
+    config: DEFAULT_LIVE_CONFIG,
+  },
+  {
+    id: 'standup',
+    label: 'Stand-up',
+    description: 'Short team sync: blockers, follow-ups and time-boxing.',
+    config: {
+      ...DEFAULT_LIVE_CONFIG,
+      systemInstruction: `You are monitoring a daily stand-up meeting.
+  Each participant says what they did, what they will do next and whether anything blocks them.
+  Pay most attention to blockers and to follow-ups that someone takes on; keep answers to one sentence.`,
+      commands: ['add_todo', 'list_todos', 'set_timer'],
+    },
+  },
+  {
+    id: 'interview',
+    label: 'Interview',
+    description: 'One interviewer, one candidate; capture questions and notes.',
+    config: {
+      ...DEFAULT_LIVE_CONFIG,
+      systemInstruction: `You are assisting the interviewer in a job interview.
+  Track the questions the interviewer asks and the substance of the candidate's answers.
+  Only answer questions addressed to you directly; never answer on the candidate's behalf.`,
+      commands: ['take_note', 'start_stopwatch', 'stop_stopwatch'],
+    },
+  },
+  {
+    id: 'lecture',
+    label: 'Lecture Q&A',
+    description: 'Audience questions to a speaker, answered for the note-taker.',
+    config: {
+      ...DEFAULT_LIVE_CONFIG,
+      systemInstruction: `You are listening to the Q&A part of a lecture or talk.
+  Audience members ask the speaker questions. Capture every question, and give a short,
+  factual answer that a note-taker could read while the speaker responds.`,
+      commands: ['take_note'],
+    },
+  },
+];
+
+// Returns a list of human-readable problems; empty when the config is usable
+export function validateLiveConfig(config: LiveManagerConfig, availableCommands: string[]): string[] {
+  const problems: string[] = [];
+  if (!LIVE_MODELS.includes(config.model)) {
+    problems.push(`Unknown model "${config.model}".`);
+  }
+  if (!PREBUILT_VOICES.includes(config.voice)) {
+    problems.push(`Unknown voice "${config.voice}".`);
+  }
+  if (!Number.isInteger(config.inputSampleRate) || config.inputSampleRate < 8000 || config.inputSampleRate > 48000) {
+    problems.push('Input sample rate must be a whole number between 8000 and 48000 Hz.');
+  }
+  if (!config.systemInstruction?.trim()) {
+    problems.push('System instruction is required.');
+  }
+  if (!Array.isArray(config.commands)) {
+    problems.push('Commands must be a list of command names.');
+  } else {
+    config.commands
+      .filter(name => !availableCommands.includes(name))
+      .forEach(name => problems.push(`Unknown command "${name}".`));
+  }
+  if (!config.translation) {
+    problems.push('Translation settings are required.');
+  } else {
+    problems.push(...validateTranslation(config.translation));
+  }
+  return problems;
+}
+
+export class LiveConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid Live configuration: ${problems.join(' ')}`);
+    this.name = 'LiveConfigError';
+  }
+}
+
+export function loadLiveConfig(): LiveManagerConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_LIVE_CONFIG, ...JSON.parse(raw) } : DEFAULT_LIVE_CONFIG;
+  } catch {
+    return DEFAULT_LIVE_CONFIG;
+  }
+}
+
+export function saveLiveConfig(config: LiveManagerConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
@@ -0,0 +1,111 @@
+import { LiveServerMessage } from '@google/genai';
+
+// Scripted or recorded streams of server messages, replayed by MockTransport.
+// `at` is milliseconds since the first connect; events after a `close` are
+// delivered on the next connection, so reconnect paths can be exercised.
+export const FIXTURE_FORMAT = 'gemini-live-monitor/fixture';
+export const FIXTURE_VERSION = 1;
+
+export type LiveFixturePayload =
+  | { message: Partial<LiveServerMessage> }
+  | { close: { code: number; reason: string } }
+  | { error: string };
+
+export type LiveFixtureEvent = LiveFixturePayload & { at: number };
+
+export interface LiveFixture {
+  format: typeof FIXTURE_FORMAT;
+  version: number;
+  name: string;
+  recordedAt?: string;
+  events: LiveFixtureEvent[];
+}
+
+export function parseFixture(text: string): LiveFixture {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Fixture is not valid JSON');
+  }
+
+  if (parsed?.format !== FIXTURE_FORMAT) {
+    throw new Error('File is not a Live message fixture');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version: ${parsed.version}`);
+  }
+  if (!Array.isArray(parsed.events) || parsed.events.some((e: any) => typeof e?.at !== 'number')) {
+    throw new Error('Fixture events must each have a numeric "at" offset');
+  }
+
+  return { ...parsed, name: parsed.name || 'Loaded fixture' } as LiveFixture;
+}
+
+export function downloadFixture(fixture: LiveFixture) {
+  const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `live-fixture-${stamp}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Cumulative transcription updates for one spoken sentence, as the server sends them
+function transcribe(at: number, sentence: string, stepMs = 250): LiveFixtureEvent[] {
+  const words = sentence.split(' ');
+  return words.map((_, i) => ({
+    at: at + i * stepMs,
+    message: { serverContent: { inputTranscription: { text: words.slice(0, i + 1).join(' ') } } },
+  }));
+}
+
+function reportIntent(at: number, id: string, text: string, type: string, answer?: string): LiveFixtureEvent {
+  return {
+    at,
+    message: { toolCall: { functionCalls: [{ id, name: 'report_intent', args: { text, type, answer } }] } },
+  };
+}
+
+const turnComplete = (at: number): LiveFixtureEvent => ({ at, message: { serverContent: { turnComplete: true } } });
+
+// A short stand-up exercising transcription, intents, a local command and a dropped socket
+export const DEMO_FIXTURE: LiveFixture = {
+  format: FIXTURE_FORMAT,
+  version: FIXTURE_VERSION,
+  name: 'Built-in demo',
+  events: [
+    { at: 200, message: { setupComplete: {} } },
+    { at: 300, message: { sessionResumptionUpdate: { newHandle: 'demo-handle-1', resumable: true } } },
+    ...transcribe(1000, 'Okay everyone, let us start the stand-up.'),
+    turnComplete(3200),
+    ...transcribe(4000, 'What is the difference between a process and a thread?'),
+    turnComplete(6800),
+    reportIntent(7200, 'demo-call-1', 'What is the difference between a process and a thread?', 'QUESTION',
+      'A process has its own memory space; threads share the memory of the process they belong to.'),
+    ...transcribe(9000, 'Add updating the release notes to my todo list.'),
+    turnComplete(11200),
+    {
+      at: 11600,
+      message: {
+        toolCall: {
+          functionCalls: [{
+            id: 'demo-call-2',
+            name: 'add_todo',
+            args: { text: 'Update the release notes', utterance: 'Add updating the release notes to my todo list.' },
+          }],
+        },
+      },
+    },
+    // Simulated network blip: the manager should reconnect and resume
+    { at: 13000, close: { code: 1006, reason: 'Simulated network drop' } },
+    { at: 14500, message: { sessionResumptionUpdate: { newHandle: 'demo-handle-2', resumable: true } } },
+    ...transcribe(15000, 'Please schedule the retro for Friday.'),
+    turnComplete(17000),
+    reportIntent(17400, 'demo-call-3', 'Please schedule the retro for Friday.', 'IMPERATIVE',
+      'Noted: schedule the retro for Friday.'),
+  ],
+};
@@ -1,223 +1,972 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { createPcmBlob, decodeAudioData } from './audioUtils';
-import { DetectedIntent, IntentType } from '../types';
-
-// Configuration
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
-const API_KEY = process.env.API_KEY as string;
-
-// Helper type for the session object since it is not exported by the SDK
-type LiveSession = Awaited<ReturnType<GoogleGenAI['live']['connect']>>;
-
-// Tool Definitions
-const reportIntentTool: FunctionDeclaration = {
-  name: 'report_intent',
-  description: 'Report a detected question or imperative command and provide an answer or acknowledgment.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      text: { 
-        type: Type.STRING, 
-        description: 'The verbatim text of the question or command detected.' 
-      },
-      type: { 
-        type: Type.STRING, 
-        enum: ['QUESTION', 'IMPERATIVE'], 
-        description: 'The classification of the detected speech.' 
-      },
-      answer: {
-        type: Type.STRING,
-        description: 'A concise, helpful answer to the question, or a confirmation that the command is understood/simulated.'
-      }
-    },
-    required: ['text', 'type', 'answer']
-  }
+import { LiveServerMessage, Modality } from '@google/genai';
+import { createPcmCaptureNode, FRAME_MS, PcmFrame } from './pcmCaptureWorklet';
+import { buildReportIntentTool, buildSystemInstruction, DEFAULT_CATEGORIES, REPORT_INTENT_TOOL_NAME } from './intentTaxonomy';
+import { CommandRegistry, UTTERANCE_PARAM } from './commandRegistry';
+import { createBuiltinCommandRegistry } from './builtinCommands';
+import { LiveTransport, LiveTransportSession, RelayTransport } from './transport';
+import { InputSource, InputSourceHandle, MicrophoneSource } from './inputSources';
+import { DEFAULT_VAD_SETTINGS, VoiceActivityGate } from './voiceActivity';
+import { TranscriptSegmenter } from './transcriptSegmenter';
+import { AnswerPlayer, DEFAULT_PLAYBACK_SETTINGS } from './answerPlayback';
+import { SessionAudioRecorder } from './audioRecorder';
+import { InputHealthMonitor } from './inputHealth';
+import { DEFAULT_LIVE_CONFIG, LiveConfigError, LiveManagerConfig, validateLiveConfig } from './liveConfig';
+import {
+  buildSpeakerInstruction,
+  DEFAULT_DIARIZATION_SETTINGS,
+  parseSpeaker,
+  REPORT_SPEAKER_TOOL,
+  StereoSpeakerDetector,
+} from './speakers';
+import { buildTranslationInstruction, REPORT_TRANSLATION_TOOL } from './translation';
+import { WatchlistMatcher } from './watchlist';
+import { isSpeechLevel, LiveMetricsCollector } from './liveMetrics';
+import { pcmToBase64 } from './audioUtils';
+import { buildKnowledgeInstruction, KnowledgeIndex, passageLabel, SEARCH_KNOWLEDGE_TOOL, toCitation } from './knowledgeBase';
+import { TypedEmitter } from './typedEmitter';
+import {
+  AudioHold,
+  ConnectionState,
+  DetectedIntent,
+  DiarizationSettings,
+  GatingMode,
+  InputHealth,
+  IntentCategory,
+  IntentType,
+  KnowledgeCitation,
+  KnowledgePassage,
+  LiveMetrics,
+  PlaybackSettings,
+  TranscriptSegment,
+  VadSettings,
+  WatchAlert,
+  WatchTerm,
+} from '../types';
+
+// Reconnect policy
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+// Audio held while the socket is down
+const MAX_BUFFERED_AUDIO_SECONDS = 60;
+const MAX_BUFFERED_FRAMES = Math.ceil((MAX_BUFFERED_AUDIO_SECONDS * 1000) / FRAME_MS);
+// How often metrics are published while running
+const METRICS_INTERVAL_MS = 1000;
+// While no audio is sent, a frame of silence this often keeps the socket from idling out
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+// Where a run may go from each connection state. A run always passes through
+// CLOSING on its way down, and ends in FAILED when it couldn't connect or gave
+// up reconnecting.
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  [ConnectionState.IDLE]: [ConnectionState.CONNECTING],
+  [ConnectionState.CONNECTING]: [ConnectionState.OPEN, ConnectionState.RECONNECTING, ConnectionState.CLOSING],
+  [ConnectionState.OPEN]: [ConnectionState.RECONNECTING, ConnectionState.CLOSING],
+  [ConnectionState.RECONNECTING]: [ConnectionState.OPEN, ConnectionState.CLOSING],
+  [ConnectionState.CLOSING]: [ConnectionState.IDLE, ConnectionState.FAILED],
+  [ConnectionState.FAILED]: [ConnectionState.CONNECTING],
 };
 
-export class LiveManager {
-  private ai: GoogleGenAI;
-  private session: LiveSession | null = null;
+// Event name -> listener arguments. Subscribe with `manager.on(name, listener)`,
+// which returns the matching unsubscribe function.
+export interface LiveManagerEvents {
+  // Raw transcription text as received from the server
+  transcript: [text: string];
+  // Structured turns: emitted on every partial update and once more when final
+  segment: [segment: TranscriptSegment];
+  intent: [intent: DetectedIntent];
+  intentUpdated: [id: string, patch: Partial<DetectedIntent>];
+  // A watch term matched; fires once per match even as the turn's text grows
+  watchAlert: [alert: WatchAlert];
+  volume: [volume: number];
+  // The analyser exists while capturing; null once monitoring stops
+  analyser: [analyser: AnalyserNode | null];
+  inputHealth: [health: InputHealth];
+  speechActivity: [active: boolean];
+  hold: [hold: AudioHold];
+  playback: [playing: boolean];
+  state: [state: ConnectionState, previous: ConnectionState];
+  inputEnded: [];
+  // The input changed mid-run, by request or by falling back after the old one ended
+  inputSwitched: [source: InputSource];
+  // Once per run, just before `disconnect`, when audio recording was on
+  audioRecorded: [recorder: SessionAudioRecorder];
+  // Every second while running, and once more when the run ends
+  metrics: [metrics: LiveMetrics];
+  error: [error: Error];
+  // Once per run, after teardown
+  disconnect: [];
+}
+
+export class LiveManager extends TypedEmitter<LiveManagerEvents> {
+  private config: LiveManagerConfig;
+  private transport: LiveTransport;
+  private commands: CommandRegistry;
+  private session: LiveTransportSession | null = null;
   private inputAudioContext: AudioContext | null = null;
-  private stream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private source: MediaStreamAudioSourceNode | null = null;
-  private isConnected = false;
+  private inputSource: InputSource = new MicrophoneSource();
+  private input: InputSourceHandle | null = null;
+  // Identifies the open input so a replaced source's late callbacks are ignored
+  private inputToken: object | null = null;
+  // The input being opened. Sources may deliver frames (or end) before open()
+  // resolves, and those count too; the current input keeps running meanwhile.
+  private openingInputToken: object | null = null;
+  // Tail of the queued input switches. An unplugged device triggers both its
+  // own fallback and the app's devicechange switch; each has to replace the
+  // input the other left, not the one that was there when it started.
+  private inputSwitch: Promise<void> = Promise.resolve();
+  private captureNode: AudioWorkletNode | null = null;
+  // Taps the raw input for visualization
+  private analyser: AnalyserNode | null = null;
+  private health = new InputHealthMonitor();
+  private state: ConnectionState = ConnectionState.IDLE;
+  // Identifies the current run so a connect() that was stopped mid-way bails out
+  private run: object | null = null;
+
+  // Resumption / reconnect bookkeeping
+  private resumptionHandle: string | null = null;
+  private reconnectAttempts = 0;
+  // Set by the first server message. A socket that opens and closes without
+  // one was refused (bad setup, quota, a stale handle) and doesn't count as a
+  // successful reconnect.
+  private sessionHealthy = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Incremented per socket so callbacks from a replaced session are ignored
+  private sessionGeneration = 0;
+  private pendingFrames: PcmFrame[] = [];
+  private categories: IntentCategory[] = DEFAULT_CATEGORIES;
+
+  // Client-side gating (VAD / push-to-talk). The mode is fixed per run because
+  // it decides whether the server's own activity detection is disabled.
+  private vadSettings: VadSettings = DEFAULT_VAD_SETTINGS;
+  private gatingMode: GatingMode = 'off';
+  private gate = new VoiceActivityGate();
+  // Whether activityStart has been sent on the current socket without a matching activityEnd
+  private sessionActivityOpen = false;
+
+  // Pause / mute: audio stops reaching the model while the session stays up
+  private hold: AudioHold = 'live';
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  private segmenter = new TranscriptSegmenter(segment => this.handleSegmentUpdate(segment));
+  // Local keyword/pattern alerts on the transcript
+  private watchlist = new WatchlistMatcher();
+  private knowledge: KnowledgeIndex | null = null;
+  // Passages handed to the model this run, by id, so the sources it cites can be resolved
+  private retrievedPassages = new Map<string, KnowledgePassage>();
+
+  // Speaker attribution. When the input turns out to carry one speaker per
+  // channel, channel levels decide and the model's reports are ignored.
+  private diarization: DiarizationSettings = DEFAULT_DIARIZATION_SETTINGS;
+  private stereoDetector = new StereoSpeakerDetector();
+  private channelSplit = false;
+
+  // Spoken answers; the player only exists for runs that speak
+  private playback: PlaybackSettings = DEFAULT_PLAYBACK_SETTINGS;
+  private player: AnswerPlayer | null = null;
+
+  // Opt-in local copy of everything captured during a run
+  private recordAudio = false;
+  private recorder: SessionAudioRecorder | null = null;
+
+  // Latency, throughput and connection measurements for the current run
+  private metrics = new LiveMetricsCollector();
+  private metricsTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Throws LiveConfigError when the config doesn't fit the command registry
+  constructor(
+    config: LiveManagerConfig = DEFAULT_LIVE_CONFIG,
+    commands: CommandRegistry = createBuiltinCommandRegistry(),
+    transport: LiveTransport = new RelayTransport()
+  ) {
+    super();
+    this.commands = commands;
+    this.transport = transport;
+    this.config = this.validated(config);
+  }
+
+  public get currentConfig(): LiveManagerConfig {
+    return this.config;
+  }
+
+  // Commands the config may enable
+  public get commandNames(): string[] {
+    return this.commands.names;
+  }
+
+  // Takes effect the next time a session is opened; throws LiveConfigError if invalid
+  public setConfig(config: LiveManagerConfig) {
+    this.config = this.validated(config);
+  }
+
+  private validated(config: LiveManagerConfig): LiveManagerConfig {
+    const problems = validateLiveConfig(config, this.commands.names);
+    if (problems.length > 0) throw new LiveConfigError(problems);
+    return config;
+  }
+
+  public get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  // Connecting, open or reconnecting; false while idle, failed or closing
+  public get isRunning(): boolean {
+    return (
+      this.state === ConnectionState.CONNECTING ||
+      this.state === ConnectionState.OPEN ||
+      this.state === ConnectionState.RECONNECTING
+    );
+  }
+
+  public get transportLabel(): string {
+    return this.transport.label;
+  }
+
+  public get gating(): GatingMode {
+    return this.gatingMode;
+  }
+
+  public get audioHold(): AudioHold {
+    return this.hold;
+  }
+
+  // Pausing stops capture; muting keeps capturing for the meter but sends and
+  // records nothing. Either way the socket, the model's context and the audio
+  // graph stay up, so going live again is instant. Only applies while running.
+  public async setAudioHold(hold: AudioHold) {
+    const ctx = this.inputAudioContext;
+    if (!ctx || hold === this.hold || !this.isRunning) return;
+
+    const previous = this.hold;
+    this.hold = hold;
+    if (previous === 'live') this.endAudioStream();
+    this.metrics.holdChanged(hold);
+    this.emit('hold', hold);
+
+    if (hold === 'live') this.stopKeepAlive();
+    else if (!this.keepAliveTimer) this.keepAliveTimer = setInterval(() => this.sendKeepAlive(), KEEPALIVE_INTERVAL_MS);
+
+    if (hold === 'paused') {
+      this.input?.pause?.();
+      await ctx.suspend();
+    } else if (previous === 'paused') {
+      // The level history from before the pause says nothing about now
+      this.health.reset();
+      await ctx.resume();
+      this.input?.resume?.();
+    }
+  }
+
+  // Used for the next connection; swap only while idle
+  public setTransport(transport: LiveTransport) {
+    this.transport = transport;
+  }
+
+  // Used the next time monitoring starts
+  public setInputSource(source: InputSource) {
+    this.inputSource = source;
+  }
+
+  public get currentInputSource(): InputSource {
+    return this.inputSource;
+  }
+
+  // Swaps the audio input of a running session without touching the socket.
+  // The old input keeps running until the new one has opened, so a failed
+  // switch (e.g. a device that has just disappeared) leaves capture intact.
+  // Switches run one after another, in the order they were asked for.
+  public switchInputSource(source: InputSource): Promise<void> {
+    const next = this.inputSwitch.then(() => this.replaceInput(source));
+    this.inputSwitch = next.catch(() => {});
+    return next;
+  }
+
+  private async replaceInput(source: InputSource) {
+    if (!this.inputAudioContext || !this.isRunning) {
+      this.inputSource = source;
+      return;
+    }
+
+    const previous = this.input;
+    const handle = await this.openInput(source);
+    if (!handle) return;
+    previous?.stop();
+    this.inputSource = source;
+    this.input = handle;
+    console.log(`Switched input to ${source.label}`);
+    this.emit('inputSwitched', source);
+  }
+
+  // Thresholds apply immediately; a mode change waits for the next run
+  public setVadSettings(settings: VadSettings) {
+    this.vadSettings = settings;
+    this.gate.updateSettings(this.isRunning ? { ...settings, mode: this.gatingMode } : settings);
+  }
+
+  public setPushToTalk(pressed: boolean) {
+    this.gate.setPushToTalk(pressed);
+  }
+
+  // Takes effect the next time a session is opened
+  public setIntentCategories(categories: IntentCategory[]) {
+    this.categories = categories;
+  }
+
+  // Takes effect the next time a session is opened
+  public setDiarizationSettings(settings: DiarizationSettings) {
+    this.diarization = settings;
+  }
+
+  // Applies immediately, including to the turn in progress
+  public setWatchTerms(terms: WatchTerm[]) {
+    this.watchlist.setTerms(terms);
+  }
+
+  // Searches use the new index right away. Whether the model is offered the
+  // search tool at all is settled when a session opens.
+  public setKnowledgeBase(index: KnowledgeIndex | null) {
+    this.knowledge = index;
+  }
+
+  // Volume and mute apply immediately; the rest waits for the next run
+  public setPlaybackSettings(settings: PlaybackSettings) {
+    this.playback = settings;
+    this.player?.setVolume(settings.volume, settings.muted);
+  }
 
-  // Event Callbacks
-  public onTranscriptUpdate: (text: string) => void = () => {};
-  public onIntentDetected: (intent: Omit<DetectedIntent, 'id' | 'timestamp'>) => void = () => {};
-  public onVolumeUpdate: (volume: number) => void = () => {};
-  public onError: (error: Error) => void = () => {};
-  public onDisconnect: () => void = () => {};
+  // Takes effect the next time monitoring starts
+  public setAudioRecording(enabled: boolean) {
+    this.recordAudio = enabled;
+  }
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: API_KEY });
+  public stopPlayback() {
+    this.player?.interrupt();
   }
 
   public async connect() {
-    if (this.isConnected) return;
+    if (this.isRunning || this.state === ConnectionState.CLOSING) return;
+    this.transition(ConnectionState.CONNECTING);
+    const run = {};
+    this.run = run;
+    // disconnect() may be called while we wait below; it tears down whatever
+    // exists at that point, and this run must not go on to build more
+    const isCurrentRun = () => this.run === run;
+
+    // A fresh monitoring run starts a fresh model context
+    this.resumptionHandle = null;
+    this.reconnectAttempts = 0;
+    this.pendingFrames = [];
+    this.gatingMode = this.vadSettings.mode;
+    this.gate.reset();
+    this.gate.updateSettings(this.vadSettings);
+    this.segmenter.reset();
+    this.watchlist.reset();
+    this.retrievedPassages.clear();
+    this.health.reset();
+    this.recorder = this.recordAudio ? new SessionAudioRecorder() : null;
+    this.stereoDetector.reset();
+    this.channelSplit = false;
+    this.metrics = new LiveMetricsCollector();
+    this.metricsTimer = setInterval(() => this.publishMetrics(), METRICS_INTERVAL_MS);
+    this.hold = 'live';
 
     try {
-      // Initialize Audio Context
-      // Note: Some browsers might ignore 'sampleRate' in options and use hardware rate
-      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000, 
-      });
+      // Initialize Audio Context at the hardware rate.
+      // The capture worklet resamples to config.inputSampleRate, so we no longer ask
+      // the browser for 16kHz (which some ignore, and Firefox refuses to mix
+      // with a MediaStream at a different rate).
+      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
       // Ensure context is running
       if (this.inputAudioContext.state === 'suspended') {
         await this.inputAudioContext.resume();
+        if (!isCurrentRun()) return;
       }
 
-      // Get Microphone Stream
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      // Start Gemini Session
-      const sessionPromise = this.ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
-          },
-          inputAudioTranscription: {}, // Enable transcription
-          systemInstruction: `
-            You are a dedicated Conversation Monitor and Assistant.
-            
-            1. **Listen**: Monitor the user's audio stream.
-            2. **Analyze**: Detect if the user asks a QUESTION or issues an IMPERATIVE COMMAND.
-            3. **Respond**: 
-               - If a **Question** is detected, formulate a concise, helpful answer.
-               - If an **Imperative** is detected, formulate a confirmation or a simulated execution response (e.g., "I have noted that task").
-            4. **Report**: IMMEDIATELY call the tool 'report_intent' with:
-               - 'text': The user's exact words.
-               - 'type': QUESTION or IMPERATIVE.
-               - 'answer': Your generated response/answer.
-            
-            Do not generate spoken audio responses for these interactions; rely solely on the tool to convey the answer.
-            If there is silence or casual chatter that is not a question or command, do nothing.
-          `,
-          tools: [{ functionDeclarations: [reportIntentTool] }]
-        },
-        callbacks: {
-          onopen: this.handleOpen.bind(this),
-          onmessage: this.handleMessage.bind(this),
-          onclose: this.handleClose.bind(this),
-          onerror: this.handleError.bind(this),
-        }
-      });
+      if (this.playback.speakAnswers) {
+        this.player = new AnswerPlayer(this.playback.volume, this.playback.muted);
+        this.player.onPlayingChange = (playing) => this.emit('playback', playing);
+      }
+
+      // Build the capture graph before the session opens; frames captured
+      // while no session is open are buffered and flushed on open.
+      await this.startCapture();
+      if (!isCurrentRun()) return;
 
-      // Wait for session to be ready to avoid race conditions
-      this.session = await sessionPromise;
-      this.isConnected = true;
+      await this.openSession();
 
     } catch (err) {
+      // Stopped while connecting; the failure belongs to the torn-down run
+      if (!isCurrentRun()) return;
       console.error('Connection failed', err);
-      this.onError(err instanceof Error ? err : new Error('Failed to connect'));
-      this.disconnect();
+      const error = err instanceof Error ? err : new Error('Failed to connect');
+      this.metrics.error(error.message);
+      this.emit('error', error);
+      this.disconnect(ConnectionState.FAILED);
+    }
+  }
+
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    const translation = this.config.translation;
+    this.sessionHealthy = false;
+    // Retrieval is for answering questions, so it needs both documents and a QUESTION category
+    const knowledge = this.knowledge && !this.knowledge.isEmpty && this.categories.some(c => c.name === IntentType.QUESTION)
+      ? this.knowledge
+      : null;
+
+    // Start Gemini Session
+    const sessionPromise = this.transport.connect({
+      model: this.config.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.config.voice } }
+        },
+        // Enable transcription. The Gemini API can't be told the spoken language
+        // (the SDK rejects languageCodes outside Vertex); the translation
+        // instruction names it instead
+        inputAudioTranscription: {},
+        // With client-side gating we send explicit activity signals instead
+        ...(this.gatingMode !== 'off' && {
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } }
+        }),
+        // Ask for resumption handles; passing the last one restores the model's context
+        sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
+        systemInstruction: buildSystemInstruction(this.categories, this.player !== null, this.config.systemInstruction)
+          + (this.diarization.enabled ? buildSpeakerInstruction() : '')
+          + (translation.enabled ? buildTranslationInstruction(translation) : '')
+          + (knowledge ? buildKnowledgeInstruction(knowledge.documentNames) : '')
+          + this.commands.buildInstruction(this.config.commands),
+        tools: [{
+          functionDeclarations: [
+            buildReportIntentTool(this.categories, this.diarization.enabled, translation.enabled, knowledge !== null),
+            ...(this.diarization.enabled ? [REPORT_SPEAKER_TOOL] : []),
+            ...(translation.enabled ? [REPORT_TRANSLATION_TOOL] : []),
+            ...(knowledge ? [SEARCH_KNOWLEDGE_TOOL] : []),
+            ...this.commands.getDeclarations(this.config.commands)
+          ]
+        }]
+      },
+      callbacks: {
+        onopen: () => isCurrent() && this.handleOpen(),
+        onmessage: (message) => isCurrent() && this.handleMessage(message),
+        onclose: (e) => isCurrent() && this.handleClose(e),
+        onerror: (e) => isCurrent() && this.handleError(e),
+      }
+    });
+
+    // Wait for session to be ready to avoid race conditions
+    const session = await sessionPromise;
+
+    // disconnect() or another reconnect may have happened while we waited
+    if (!isCurrent()) {
+      session.close();
+      return;
     }
+
+    this.session = session;
+    this.sessionActivityOpen = false;
+    this.metrics.sessionOpened();
+    this.transition(ConnectionState.OPEN);
+    this.flushPendingFrames();
   }
 
   private handleOpen() {
-    console.log('Gemini Live Session Opened');
-    if (!this.inputAudioContext || !this.stream) return;
-
-    // Setup Audio Processing
-    this.source = this.inputAudioContext.createMediaStreamSource(this.stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-
-    this.processor.onaudioprocess = (e) => {
-      if (!this.inputAudioContext) return;
-      
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      // Calculate volume for visualizer
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        sum += inputData[i] * inputData[i];
+    console.log(`${this.transport.label} session opened`);
+  }
+
+  private async startCapture() {
+    const handle = await this.openInput(this.inputSource);
+    // Null when the run was stopped meanwhile; by then a new run may own `input`
+    if (handle) this.input = handle;
+  }
+
+  // Opens a source and wires it into the capture graph, which is built on
+  // first use and shared by every input of the run. Returns null if the run
+  // was stopped while the source was opening.
+  private async openInput(source: InputSource): Promise<InputSourceHandle | null> {
+    const ctx = this.inputAudioContext;
+    if (!ctx) return null;
+
+    const token = {};
+    const isCurrent = () => this.inputToken === token || this.openingInputToken === token;
+    const sampleRate = this.config.inputSampleRate;
+    this.openingInputToken = token;
+    let handle: InputSourceHandle;
+    try {
+      handle = await source.open(
+        ctx,
+        frame => isCurrent() && this.handleFrame(frame),
+        () => isCurrent() && this.handleInputEnded(),
+        sampleRate
+      );
+    } finally {
+      if (this.openingInputToken === token) this.openingInputToken = null;
+    }
+    if (ctx !== this.inputAudioContext) {
+      handle.stop();
+      return null;
+    }
+    this.inputToken = token;
+
+    // Stream sources go through the resampling worklet; file sources push frames directly
+    if (handle.node) {
+      if (!this.captureNode) {
+        const node = await createPcmCaptureNode(ctx, this.handleFrame.bind(this), {
+          targetSampleRate: sampleRate
+        });
+        if (ctx !== this.inputAudioContext) {
+          node.disconnect();
+          handle.stop();
+          return null;
+        }
+        this.captureNode = node;
+        // The node outputs silence; connecting it keeps it pulled by the graph
+        this.captureNode.connect(ctx.destination);
+      }
+      handle.node.connect(this.captureNode);
+    }
+
+    const tap = handle.node ?? handle.monitor;
+    if (tap) {
+      if (!this.analyser) {
+        this.analyser = ctx.createAnalyser();
+        this.analyser.fftSize = 2048;
+        this.analyser.smoothingTimeConstant = 0.6;
+        this.emit('analyser', this.analyser);
       }
-      const rms = Math.sqrt(sum / inputData.length);
-      this.onVolumeUpdate(rms);
-
-      // Send to Gemini
-      // CRITICAL: Use the actual sampleRate of the context, not the requested one.
-      // Mismatch between actual and reported sample rates causes server errors.
-      const pcmBlob = createPcmBlob(inputData, this.inputAudioContext.sampleRate);
-      
-      if (this.session) {
-        this.session.sendRealtimeInput({ media: pcmBlob });
+      tap.connect(this.analyser);
+    }
+    return handle;
+  }
+
+  private async handleInputEnded() {
+    console.log(`${this.inputSource.label} input ended`);
+
+    // A device that went away mid-run is replaced rather than ending the run
+    const fallback = this.inputSource.fallback?.();
+    if (fallback) {
+      try {
+        await this.switchInputSource(fallback);
+        return;
+      } catch (err) {
+        console.warn('No fallback input available', err);
       }
-    };
+    }
+
+    this.endAudioStream();
+    this.emit('inputEnded');
+  }
+
+  // Lets the server flush any pending transcription for the last words
+  private endAudioStream() {
+    if (this.gatingMode === 'off') {
+      this.session?.sendRealtimeInput({ audioStreamEnd: true });
+    } else if (this.gate.isActive) {
+      this.gate.reset();
+      this.endActivity();
+      this.emit('speechActivity', false);
+    }
+  }
+
+  private handleFrame(frame: PcmFrame) {
+    // Frames already on their way when the context was suspended
+    if (this.hold === 'paused') return;
+
+    this.emit('volume', frame.rms);
+    const health = this.health.push(frame);
+    if (health) this.emit('inputHealth', health);
+
+    // Off the record: metered, but not recorded, attributed or sent
+    if (this.hold === 'muted') return;
+    this.recorder?.push(frame);
+
+    if (this.diarization.enabled && this.diarization.stereoChannels && frame.channelRms) {
+      this.channelSplit = true;
+      const speaker = this.stereoDetector.push(frame.channelRms);
+      if (speaker) this.segmenter.setSpeaker(speaker);
+    }
+
+    const { activityStart, frames, activityEnd } = this.gate.push(frame);
+    if (this.gatingMode === 'off' ? isSpeechLevel(frame.rms) : activityStart) {
+      this.metrics.speechDetected();
+    }
+    if (activityStart) {
+      // Barge-in: the user talking over an answer cuts it off
+      this.player?.interrupt();
+      this.emit('speechActivity', true);
+    }
+    frames.forEach(f => this.queueFrame(f));
+    if (activityEnd) {
+      this.endActivity();
+      this.emit('speechActivity', false);
+    }
+  }
+
+  private queueFrame(frame: PcmFrame) {
+    if (this.session && this.state === ConnectionState.OPEN) {
+      this.sendFrame(frame);
+      return;
+    }
 
-    this.source.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
+    // Hold on to speech while the socket is (re)connecting, oldest dropped first
+    this.pendingFrames.push(frame);
+    if (this.pendingFrames.length > MAX_BUFFERED_FRAMES) {
+      this.pendingFrames.shift();
+      this.metrics.frameDropped();
+    }
+  }
+
+  private sendFrame(frame: PcmFrame) {
+    if (!this.session) return;
+
+    // Every gated stretch of audio must be opened on the socket it is sent on,
+    // including speech that started before a reconnect
+    if (this.gatingMode !== 'off' && !this.sessionActivityOpen) {
+      this.session.sendRealtimeInput({ activityStart: {} });
+      this.sessionActivityOpen = true;
+    }
+    this.session.sendRealtimeInput({
+      media: { data: frame.data, mimeType: `audio/pcm;rate=${frame.sampleRate}` }
+    });
+    this.metrics.frameSent(frame);
+  }
+
+  // Silence sent outside any activity, so gated runs don't open a turn
+  private sendKeepAlive() {
+    if (!this.session || this.state !== ConnectionState.OPEN) return;
+    const sampleRate = this.config.inputSampleRate;
+    const silence = new Int16Array(Math.round((sampleRate * FRAME_MS) / 1000));
+    this.session.sendRealtimeInput({
+      media: { data: pcmToBase64(silence), mimeType: `audio/pcm;rate=${sampleRate}` }
+    });
+  }
+
+  private stopKeepAlive() {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private endActivity() {
+    if (!this.session || !this.sessionActivityOpen) return;
+    this.session.sendRealtimeInput({ activityEnd: {} });
+    this.sessionActivityOpen = false;
+  }
+
+  private flushPendingFrames() {
+    const frames = this.pendingFrames;
+    this.pendingFrames = [];
+    frames.forEach(frame => this.sendFrame(frame));
+    // Speech that ended during the outage still needs closing on the new socket
+    if (!this.gate.isActive) this.endActivity();
   }
 
   private async handleMessage(message: LiveServerMessage) {
+    this.metrics.messageReceived(message);
+    if (!this.sessionHealthy) {
+      this.sessionHealthy = true;
+      this.reconnectAttempts = 0;
+    }
+
+    // Track the latest resumable state of the session
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
+
+    // The server is about to drop us; move to a new socket while we still can
+    if (message.goAway) {
+      console.log('Gemini Live GoAway received, time left:', message.goAway.timeLeft);
+      this.metrics.goAwayReceived(message.goAway.timeLeft);
+      this.reconnect();
+      return;
+    }
+
+    // Spoken answer audio. Without client-side gating the server's own
+    // activity detection notices the user talking over it and sends `interrupted`.
+    if (this.player) {
+      if (message.serverContent?.interrupted) {
+        this.player.interrupt();
+      }
+      for (const part of message.serverContent?.modelTurn?.parts ?? []) {
+        const audio = part.inlineData;
+        if (audio?.data && audio.mimeType?.startsWith('audio/pcm')) {
+          this.player.enqueue(audio.data).catch(err => console.error('Failed to play answer audio', err));
+        }
+      }
+    }
+
     // Handle Transcription
-    const transcript = message.serverContent?.inputTranscription?.text;
-    if (transcript) {
-      this.onTranscriptUpdate(transcript);
+    const transcription = message.serverContent?.inputTranscription;
+    if (transcription?.text) {
+      this.metrics.transcriptReceived();
+      this.emit('transcript', transcription.text);
+      this.segmenter.ingest(transcription.text);
+    }
+    // The server decides where a turn ends
+    if (transcription?.finished || message.serverContent?.turnComplete) {
+      this.metrics.turnFinalized();
+      this.segmenter.finalize();
     }
 
-    // Handle Tool Calls (Intents)
+    // Handle Tool Calls (Intents and local commands)
     if (message.toolCall) {
-      for (const fc of message.toolCall.functionCalls) {
-        if (fc.name === 'report_intent') {
+      for (const fc of message.toolCall.functionCalls ?? []) {
+        this.metrics.toolCallReceived(fc.id, fc.name);
+        if (fc.name === REPORT_INTENT_TOOL_NAME) {
           const args = fc.args as any;
-          this.onIntentDetected({
+          const citations = this.resolveCitations(args.sources);
+          this.metrics.intentDetected();
+          this.emit('intent', {
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
             text: args.text,
-            type: args.type as IntentType,
-            answer: args.answer
+            type: args.type as string,
+            answer: args.answer || undefined,
+            speaker: this.attributeIntent(args.speaker),
+            ...(this.config.translation.enabled && args.original_text && { originalText: args.original_text }),
+            ...(citations.length > 0 && { citations })
           });
 
           // Acknowledge tool execution to keep model happy
-          if (this.session) {
-            this.session.sendToolResponse({
-              functionResponses: [{
-                id: fc.id,
-                name: fc.name,
-                response: { result: 'logged' }
-              }]
-            });
-          }
+          this.sendToolResponse(fc.id, fc.name, { result: 'logged' });
+        } else if (fc.name === 'report_speaker') {
+          const speaker = parseSpeaker((fc.args as any)?.speaker);
+          if (speaker && this.diarization.enabled && !this.channelSplit) this.segmenter.setSpeaker(speaker);
+          this.sendToolResponse(fc.id, fc.name, { result: 'ok' });
+        } else if (fc.name === 'report_translation') {
+          const translation = (fc.args as any)?.translation;
+          if (typeof translation === 'string' && this.config.translation.enabled) this.segmenter.addTranslation(translation);
+          this.sendToolResponse(fc.id, fc.name, { result: 'ok' });
+        } else if (fc.name === 'search_knowledge_base') {
+          this.searchKnowledge(fc.id, fc.name, (fc.args as any)?.query);
+        } else if (fc.name && this.commands.has(fc.name) && this.config.commands.includes(fc.name)) {
+          this.executeCommand(fc.id, fc.name, fc.args ?? {});
+        } else {
+          this.sendToolResponse(fc.id, fc.name, { error: `Unknown function: ${fc.name}` });
         }
       }
     }
   }
 
-  private handleClose() {
-    console.log('Gemini Live Session Closed');
-    this.disconnect();
+  private handleSegmentUpdate(segment: TranscriptSegment) {
+    this.emit('segment', segment);
+    this.watchlist.scan(segment).forEach(alert => this.emit('watchAlert', alert));
+  }
+
+  private searchKnowledge(callId: string | undefined, name: string, query: unknown) {
+    if (typeof query !== 'string' || !query.trim()) {
+      this.sendToolResponse(callId, name, { error: 'A query is required.' });
+      return;
+    }
+    const hits = this.knowledge?.search(query) ?? [];
+    hits.forEach(({ passage }) => this.retrievedPassages.set(passage.id, passage));
+    this.sendToolResponse(callId, name, hits.length > 0
+      ? { passages: hits.map(({ passage }) => ({ id: passage.id, source: passageLabel(passage), text: passage.text })) }
+      : { passages: [], result: 'No matching passages.' });
+  }
+
+  // Ids the model made up, or passages from a search it never ran, are dropped
+  private resolveCitations(sources: unknown): KnowledgeCitation[] {
+    if (!Array.isArray(sources)) return [];
+    const ids = [...new Set(sources.filter((id): id is string => typeof id === 'string'))];
+    return ids.flatMap(id => {
+      const passage = this.retrievedPassages.get(id);
+      return passage ? [toCitation(passage)] : [];
+    });
+  }
+
+  // Who an intent belongs to: the model's own report unless channels decide
+  private attributeIntent(reported?: unknown): string | undefined {
+    if (!this.diarization.enabled) return undefined;
+    if (this.channelSplit) return this.segmenter.currentSpeaker;
+    return parseSpeaker(reported) ?? this.segmenter.currentSpeaker;
+  }
+
+  // Runs a local command, surfacing it as an imperative intent whose card tracks the execution
+  private async executeCommand(callId: string | undefined, name: string, args: Record<string, unknown>) {
+    const intentId = crypto.randomUUID();
+    const utterance = typeof args[UTTERANCE_PARAM] === 'string' ? (args[UTTERANCE_PARAM] as string) : name;
+    const { [UTTERANCE_PARAM]: _utterance, ...commandArgs } = args;
+    this.metrics.intentDetected();
+
+    this.emit('intent', {
+      id: intentId,
+      timestamp: Date.now(),
+      text: utterance,
+      type: IntentType.IMPERATIVE,
+      execution: { command: name, args: commandArgs, status: 'running' },
+      speaker: this.attributeIntent()
+    });
+
+    try {
+      const result = await this.commands.execute(name, args);
+      this.emit('intentUpdated', intentId, {
+        execution: { command: name, args: commandArgs, status: 'succeeded', output: result.output }
+      });
+      this.sendToolResponse(callId, name, { result: result.output, ...result.data });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Command ${name} failed`, err);
+      this.emit('intentUpdated', intentId, {
+        execution: { command: name, args: commandArgs, status: 'failed', output: message }
+      });
+      this.sendToolResponse(callId, name, { error: message });
+    }
+  }
+
+  private sendToolResponse(id: string | undefined, name: string | undefined, response: Record<string, unknown>) {
+    if (!this.session) return;
+    this.session.sendToolResponse({
+      functionResponses: [{ id, name, response }]
+    });
+    this.metrics.toolResponseSent(id);
+  }
+
+  private handleClose(e: CloseEvent) {
+    console.log('Gemini Live Session Closed', e.code, e.reason);
+    this.metrics.sessionClosed(e.code, e.reason);
+    this.session = null;
+    // Refused straight away; if we were resuming, the handle may be why
+    if (!this.sessionHealthy && this.resumptionHandle) {
+      console.warn('Session closed before the server answered; dropping the resumption handle');
+      this.resumptionHandle = null;
+    }
+    this.scheduleReconnect();
   }
 
   private handleError(e: ErrorEvent) {
+    // The socket closes after an error; handleClose takes care of reconnecting
     console.error('Gemini Live Error', e);
-    const msg = (e as any).message || 'Connection error detected';
-    this.onError(new Error(msg));
   }
 
-  public disconnect() {
-    this.isConnected = false;
+  // Drop the current socket immediately and open a new one
+  private reconnect() {
+    const session = this.session;
     this.session = null;
-    
-    if (this.source) {
-      this.source.disconnect();
-      this.source = null;
+    // Invalidate the old socket's callbacks before closing it
+    this.sessionGeneration++;
+    session?.close();
+    this.scheduleReconnect(0);
+  }
+
+  private scheduleReconnect(delayOverride?: number) {
+    if (!this.isRunning || this.reconnectTimer) return;
+
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      const error = new Error(`Connection lost; gave up after ${RECONNECT_MAX_ATTEMPTS} attempts`);
+      this.metrics.error(error.message);
+      this.emit('error', error);
+      this.disconnect(ConnectionState.FAILED);
+      return;
+    }
+
+    // Exponential backoff with jitter
+    const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    const delay = delayOverride ?? backoff / 2 + Math.random() * (backoff / 2);
+    this.reconnectAttempts++;
+    this.metrics.reconnecting(this.reconnectAttempts);
+    this.transition(ConnectionState.RECONNECTING);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.openSession();
+      } catch (err) {
+        console.error('Reconnect attempt failed', err);
+        this.metrics.error(err instanceof Error ? err.message : String(err));
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private publishMetrics() {
+    this.metrics.sample();
+    this.emit('metrics', this.metrics.snapshot());
+  }
+
+  // Moves to `next` if TRANSITIONS allows it. Returns false (and changes
+  // nothing) otherwise, including when already in `next`.
+  private transition(next: ConnectionState): boolean {
+    const previous = this.state;
+    if (previous === next) return false;
+    if (!TRANSITIONS[previous].includes(next)) {
+      console.warn(`Ignoring connection state change ${previous} -> ${next}`);
+      return false;
+    }
+    this.state = next;
+    this.emit('state', next, previous);
+    return true;
+  }
+
+  // Does nothing unless a run is in progress
+  public disconnect(finalState: ConnectionState.IDLE | ConnectionState.FAILED = ConnectionState.IDLE) {
+    if (!this.isRunning) return;
+    this.transition(ConnectionState.CLOSING);
+    this.run = null;
+    // Whatever was said last is kept as a final segment
+    this.segmenter.finalize();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+      this.publishMetrics();
+    }
+    this.stopKeepAlive();
+    if (this.hold !== 'live') {
+      this.hold = 'live';
+      this.emit('hold', 'live');
+    }
+    // Invalidate callbacks from the socket we're about to close
+    this.sessionGeneration++;
+    if (this.session) {
+      this.session.close();
+      this.session = null;
     }
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
+    this.pendingFrames = [];
+
+    this.inputToken = null;
+    this.openingInputToken = null;
+    if (this.input) {
+      this.input.stop();
+      this.input = null;
+    }
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
     }
-    if (this.stream) {
-      this.stream.getTracks().forEach(t => t.stop());
-      this.stream = null;
+    if (this.analyser) {
+      this.analyser.disconnect();
+      this.analyser = null;
+      this.emit('analyser', null);
     }
+    this.health.reset();
+    this.emit('inputHealth', 'ok');
     if (this.inputAudioContext) {
       this.inputAudioContext.close();
       this.inputAudioContext = null;
     }
-    
-    this.onDisconnect();
+    if (this.player) {
+      this.player.close();
+      this.player = null;
+    }
+
+    this.transition(finalState);
+
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (recorder && !recorder.isEmpty) {
+      this.emit('audioRecorded', recorder);
+    }
+    this.emit('disconnect');
   }
-}
\ No newline at end of file
+}
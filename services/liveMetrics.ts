@@ -0,0 +1,268 @@
+import { LiveServerMessage, UsageMetadata } from '@google/genai';
+import { PcmFrame } from './pcmCaptureWorklet';
+import { LiveManagerConfig } from './liveConfig';
+import { AudioHold, ConnectionState, GatingMode, LatencyStats, LiveMetrics, MetricsEvent } from '../types';
+
+// Without client-side gating, a frame this loud counts as the start of speech
+const SPEECH_LEVEL_DB = -45;
+// Speech that got no transcript this long was noise; the next loud frame starts over
+const STALE_ONSET_MS = 10000;
+// Samples kept per latency series for the percentile
+const LATENCY_WINDOW = 200;
+const SPARKLINE_POINTS = 50;
+const SERIES_SECONDS = 60;
+const MAX_EVENTS = 200;
+
+// The parts of a server message worth counting separately
+const MESSAGE_KINDS = [
+  'setupComplete',
+  'toolCall',
+  'toolCallCancellation',
+  'usageMetadata',
+  'goAway',
+  'sessionResumptionUpdate',
+] as const;
+const SERVER_CONTENT_KINDS = [
+  'inputTranscription',
+  'outputTranscription',
+  'modelTurn',
+  'turnComplete',
+  'interrupted',
+  'generationComplete',
+] as const;
+
+export const isSpeechLevel = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-8)) >= SPEECH_LEVEL_DB;
+
+class LatencySeries {
+  private count = 0;
+  private sum = 0;
+  private max = 0;
+  private samples: number[] = [];
+
+  public push(ms: number) {
+    this.count++;
+    this.sum += ms;
+    this.max = Math.max(this.max, ms);
+    this.samples.push(ms);
+    if (this.samples.length > LATENCY_WINDOW) this.samples.shift();
+  }
+
+  public stats(): LatencyStats {
+    if (this.count === 0) return { count: 0, avgMs: null, p95Ms: null, maxMs: null, recent: [] };
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return {
+      count: this.count,
+      avgMs: Math.round(this.sum / this.count),
+      p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+      maxMs: this.max,
+      recent: this.samples.slice(-SPARKLINE_POINTS),
+    };
+  }
+}
+
+// Collects what the pipeline did during one run (use a new collector per run).
+// LiveManager reports each step as it happens; `sample` closes the current
+// second for the throughput series.
+//
+// Speech latency is measured from the first speech in a turn: the gate opening
+// with client-side gating, otherwise the first frame above SPEECH_LEVEL_DB. An
+// intent is timed from the onset of the turn it most likely belongs to, which
+// is the one still open or, once that is final, the one just finished.
+export class LiveMetricsCollector {
+  private startedAt = Date.now();
+  private speechToTranscript = new LatencySeries();
+  private speechToIntent = new LatencySeries();
+  private toolRoundTrip = new LatencySeries();
+  private audio = { framesSent: 0, bytesSent: 0, framesDropped: 0 };
+  private messages: Record<string, number> = {};
+  private toolCalls: Record<string, number> = {};
+  private connections = 0;
+  private reconnectAttempts = 0;
+  private goAways = 0;
+  private tokens = { prompt: 0, response: 0, total: 0 };
+  private audioBytesPerSecond: number[] = [];
+  private messagesPerSecond: number[] = [];
+  private events: MetricsEvent[] = [];
+
+  private turnOnset: number | null = null;
+  private transcriptTimed = false;
+  private lastTurnOnset: number | null = null;
+  private pendingToolCalls = new Map<string, number>();
+  private secondBytes = 0;
+  private secondMessages = 0;
+
+  public speechDetected(now = Date.now()) {
+    const stale = this.turnOnset !== null && !this.transcriptTimed && now - this.turnOnset > STALE_ONSET_MS;
+    if (this.turnOnset === null || stale) {
+      this.turnOnset = now;
+      this.transcriptTimed = false;
+    }
+  }
+
+  public transcriptReceived(now = Date.now()) {
+    if (this.turnOnset === null || this.transcriptTimed) return;
+    this.speechToTranscript.push(now - this.turnOnset);
+    this.transcriptTimed = true;
+  }
+
+  public turnFinalized() {
+    if (this.turnOnset !== null) this.lastTurnOnset = this.turnOnset;
+    this.turnOnset = null;
+    this.transcriptTimed = false;
+  }
+
+  public intentDetected(now = Date.now()) {
+    const onset = this.turnOnset ?? this.lastTurnOnset;
+    if (onset !== null) this.speechToIntent.push(now - onset);
+  }
+
+  public frameSent(frame: PcmFrame) {
+    this.audio.framesSent++;
+    this.audio.bytesSent += frame.pcm.byteLength;
+    this.secondBytes += frame.pcm.byteLength;
+  }
+
+  public frameDropped() {
+    this.audio.framesDropped++;
+  }
+
+  public messageReceived(message: LiveServerMessage) {
+    this.secondMessages++;
+    let counted = false;
+    const count = (kind: string) => {
+      this.messages[kind] = (this.messages[kind] ?? 0) + 1;
+      counted = true;
+    };
+    MESSAGE_KINDS.forEach(kind => message[kind] !== undefined && count(kind));
+    const content = message.serverContent;
+    if (content) SERVER_CONTENT_KINDS.forEach(kind => content[kind] !== undefined && count(`serverContent.${kind}`));
+    if (!counted) count('other');
+
+    if (message.usageMetadata) this.addUsage(message.usageMetadata);
+  }
+
+  public toolCallReceived(id: string | undefined, name: string | undefined, now = Date.now()) {
+    const key = name ?? 'unknown';
+    this.toolCalls[key] = (this.toolCalls[key] ?? 0) + 1;
+    if (id) this.pendingToolCalls.set(id, now);
+  }
+
+  public toolResponseSent(id: string | undefined, now = Date.now()) {
+    const receivedAt = id ? this.pendingToolCalls.get(id) : undefined;
+    if (receivedAt === undefined) return;
+    this.pendingToolCalls.delete(id!);
+    this.toolRoundTrip.push(now - receivedAt);
+  }
+
+  public sessionOpened() {
+    this.connections++;
+    this.log('open', this.connections > 1 ? `reconnect ${this.connections - 1}` : undefined);
+  }
+
+  public sessionClosed(code: number, reason: string) {
+    // Calls in flight on the old socket will never be answered there
+    this.pendingToolCalls.clear();
+    this.log('close', `${code}${reason ? ` ${reason}` : ''}`);
+  }
+
+  public reconnecting(attempt: number) {
+    this.reconnectAttempts++;
+    this.log('reconnecting', `attempt ${attempt}`);
+  }
+
+  public goAwayReceived(timeLeft?: string) {
+    this.goAways++;
+    this.log('goAway', timeLeft);
+  }
+
+  public error(message: string) {
+    this.log('error', message);
+  }
+
+  public holdChanged(hold: AudioHold) {
+    this.log('hold', hold);
+  }
+
+  // Closes the current one-second bucket of the throughput series
+  public sample() {
+    this.audioBytesPerSecond = [...this.audioBytesPerSecond, this.secondBytes].slice(-SERIES_SECONDS);
+    this.messagesPerSecond = [...this.messagesPerSecond, this.secondMessages].slice(-SERIES_SECONDS);
+    this.secondBytes = 0;
+    this.secondMessages = 0;
+  }
+
+  public snapshot(now = Date.now()): LiveMetrics {
+    return {
+      startedAt: this.startedAt,
+      updatedAt: now,
+      speechToTranscript: this.speechToTranscript.stats(),
+      speechToIntent: this.speechToIntent.stats(),
+      toolRoundTrip: this.toolRoundTrip.stats(),
+      audio: { ...this.audio },
+      messages: { ...this.messages },
+      toolCalls: { ...this.toolCalls },
+      connections: this.connections,
+      reconnectAttempts: this.reconnectAttempts,
+      goAways: this.goAways,
+      tokens: { ...this.tokens },
+      audioBytesPerSecond: this.audioBytesPerSecond,
+      messagesPerSecond: this.messagesPerSecond,
+      events: [...this.events],
+    };
+  }
+
+  private addUsage(usage: UsageMetadata) {
+    this.tokens.prompt += usage.promptTokenCount ?? 0;
+    this.tokens.response += usage.responseTokenCount ?? 0;
+    this.tokens.total += usage.totalTokenCount ?? 0;
+  }
+
+  private log(kind: MetricsEvent['kind'], detail?: string) {
+    this.events.push({ at: Date.now(), kind, ...(detail && { detail }) });
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+  }
+}
+
+// What was going on around the metrics, for a bug report
+export interface DiagnosticContext {
+  connectionState: ConnectionState;
+  transport: string;
+  input: string;
+  config: LiveManagerConfig;
+  gating: GatingMode;
+  diarization: boolean;
+  speakAnswers: boolean;
+  lastError: string | null;
+}
+
+// Everything needed to look into "it felt slow", minus conversation content:
+// the system instruction is reduced to its length.
+export function buildDiagnosticBundle(metrics: LiveMetrics | null, context: DiagnosticContext) {
+  const { systemInstruction, ...config } = context.config;
+  return {
+    kind: 'gemini-live-monitor.diagnostics',
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    environment: {
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: navigator.onLine,
+      hardwareConcurrency: navigator.hardwareConcurrency,
+    },
+    ...context,
+    config: { ...config, systemInstructionLength: systemInstruction.length },
+    metrics,
+  };
+}
+
+export function downloadDiagnosticBundle(bundle: ReturnType<typeof buildDiagnosticBundle>) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `diagnostics-${stamp}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
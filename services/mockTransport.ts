@@ -0,0 +1,83 @@
+import {
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './transport';
+import { LiveFixture } from './liveFixture';
+
+// Simulated connection setup time
+const CONNECT_DELAY_MS = 150;
+
+// In-browser stand-in for the Live socket that replays a fixture. Client
+// input is accepted and discarded. The replay position survives reconnects,
+// so a scripted close followed by more events behaves like a resumed session.
+export class MockTransport implements LiveTransport {
+  public readonly label: string;
+  private cursor = 0;
+  // Fixture time already played on previous connections
+  private elapsedOffset = 0;
+
+  constructor(private fixture: LiveFixture) {
+    this.label = `Replay: ${fixture.name}`;
+  }
+
+  public rewind() {
+    this.cursor = 0;
+    this.elapsedOffset = 0;
+  }
+
+  public async connect({ config, callbacks }: LiveConnectParameters): Promise<LiveTransportSession> {
+    // Without a resumption handle the client wants a fresh session
+    if (!config?.sessionResumption?.handle) {
+      this.rewind();
+    }
+    await new Promise(resolve => setTimeout(resolve, CONNECT_DELAY_MS));
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let closed = false;
+
+    const finish = (code: number, reason: string) => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      callbacks.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+    };
+
+    const events = this.fixture.events;
+    const startAt = this.elapsedOffset;
+
+    // Schedule everything up to and including the next scripted close. The
+    // cursor only advances as events fire, so a client-side close leaves the
+    // rest for the next connection.
+    for (let i = this.cursor; i < events.length; i++) {
+      const event = events[i];
+      const delay = Math.max(0, event.at - startAt);
+
+      timers.push(setTimeout(() => {
+        if (closed) return;
+        this.cursor = i + 1;
+        this.elapsedOffset = event.at;
+
+        if ('close' in event) {
+          finish(event.close.code, event.close.reason);
+        } else if ('error' in event) {
+          callbacks.onerror?.(new ErrorEvent('error', { message: event.error }));
+        } else {
+          callbacks.onmessage(Object.assign(new LiveServerMessage(), event.message));
+        }
+      }, delay));
+
+      if ('close' in event) break;
+    }
+
+    callbacks.onopen?.();
+
+    return {
+      sendRealtimeInput: (_params: LiveSendRealtimeInputParameters) => {},
+      sendToolResponse: (_params: LiveSendToolResponseParameters) => {},
+      close: () => finish(1000, 'Closed by client'),
+    };
+  }
+}
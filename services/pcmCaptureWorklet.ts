@@ -0,0 +1,210 @@
+// AudioWorklet-based capture stage.
+// The processor runs on the audio rendering thread: it downmixes to mono,
+// resamples from the context's native rate to the rate the Live API expects,
+// converts to Int16, chunks into fixed-size frames and base64-encodes them,
+// so the main thread only has to forward ready-to-send frames.
+
+export const TARGET_SAMPLE_RATE = 16000;
+// Frames hold 100ms of audio whatever the rate
+export const FRAME_MS = 100;
+export const frameSizeFor = (sampleRate: number) => Math.round((sampleRate * FRAME_MS) / 1000);
+export const DEFAULT_FRAME_SIZE = frameSizeFor(TARGET_SAMPLE_RATE);
+
+export interface PcmFrame {
+  data: string;       // base64-encoded little-endian Int16 PCM
+  pcm: Int16Array;    // the same samples, for local consumers
+  sampleRate: number;
+  rms: number;        // 0.0 to 1.0, computed over the frame
+  channelRms?: number[]; // Per-channel level before downmixing; only for multichannel input
+}
+
+interface PcmCaptureOptions {
+  targetSampleRate?: number;
+  frameSize?: number;
+}
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Kept as a string so it can be loaded from a Blob URL: the app is served both
+// by Vite and by AI Studio's import map, and neither reliably resolves a
+// separate worklet file.
+const PROCESSOR_SOURCE = `
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// btoa is not available in AudioWorkletGlobalScope
+function bytesToBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] +
+      BASE64_CHARS[(n >> 6) & 63] + BASE64_CHARS[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63] +
+      BASE64_CHARS[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+// Windowed-sinc (Blackman) low-pass with its cutoff at cutoff times the
+// sample rate, normalized to unity gain at DC
+function designLowPass(cutoff, length) {
+  const taps = new Float32Array(length);
+  const middle = (length - 1) / 2;
+  let sum = 0;
+  for (let k = 0; k < length; k++) {
+    const x = k - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * k) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * k) / (length - 1));
+    taps[k] = sinc * window;
+    sum += taps[k];
+  }
+  for (let k = 0; k < length; k++) taps[k] /= sum;
+  return taps;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.targetSampleRate = opts.targetSampleRate;
+    this.frameSize = opts.frameSize;
+    // Number of input samples that make up one output sample
+    this.ratio = sampleRate / this.targetSampleRate;
+    // Anti-aliasing when downsampling: everything above 0.45x the target rate
+    // is filtered out before decimating, so e.g. 8-16kHz content of a 48kHz
+    // input can't fold into the speech band at 16kHz. About 32 taps per
+    // output sample keeps the transition band under 3kHz at any ratio.
+    if (this.ratio > 1) {
+      const length = Math.ceil(32 * this.ratio) | 1;
+      this.taps = designLowPass((0.45 * this.targetSampleRate) / sampleRate, length);
+      // Each sample is written twice, so the newest length samples are always contiguous
+      this.history = new Float32Array(2 * length);
+      this.historyIndex = 0;
+    } else {
+      this.taps = null;
+    }
+    // Linear interpolation: output samples fall at fractional positions
+    // between the previous filtered sample (0) and the current one (1)
+    this.previous = 0;
+    this.position = 1;
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+    this.sumSquares = 0;
+    // Per-channel energy of the input samples behind the current frame
+    this.channelSums = [];
+    this.channelCount = 0;
+  }
+
+  emit(value) {
+    if (value > 1) value = 1;
+    if (value < -1) value = -1;
+    this.sumSquares += value * value;
+    this.frame[this.frameIndex++] = value < 0 ? value * 0x8000 : value * 0x7FFF;
+
+    if (this.frameIndex === this.frameSize) {
+      const pcm = this.frame;
+      const rms = Math.sqrt(this.sumSquares / this.frameSize);
+      const data = bytesToBase64(new Uint8Array(pcm.buffer));
+      const message = { data, pcm, sampleRate: this.targetSampleRate, rms };
+      if (this.channelSums.length > 1 && this.channelCount > 0) {
+        message.channelRms = this.channelSums.map(s => Math.sqrt(s / this.channelCount));
+      }
+      this.port.postMessage(message, [pcm.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+      this.sumSquares = 0;
+      this.channelSums = [];
+      this.channelCount = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const channels = input.length;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels; c++) {
+        const v = input[c][i];
+        sample += v;
+        if (channels > 1) this.channelSums[c] = (this.channelSums[c] || 0) + v * v;
+      }
+      sample /= channels;
+      this.channelCount++;
+
+      const filtered = this.taps ? this.lowPass(sample) : sample;
+
+      // When upsampling several output samples can fall on one input sample
+      while (this.position <= 1) {
+        this.emit(this.previous + (filtered - this.previous) * this.position);
+        this.position += this.ratio;
+      }
+      this.position -= 1;
+      this.previous = filtered;
+    }
+    return true;
+  }
+
+  lowPass(sample) {
+    const taps = this.taps;
+    const length = taps.length;
+    const history = this.history;
+    history[this.historyIndex] = sample;
+    history[this.historyIndex + length] = sample;
+    this.historyIndex = (this.historyIndex + 1) % length;
+
+    // history[start + length - 1] is the newest sample; the taps are symmetric
+    const start = this.historyIndex;
+    let out = 0;
+    for (let k = 0; k < length; k++) out += taps[k] * history[start + k];
+    return out;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+async function registerProcessor(ctx: BaseAudioContext) {
+  if (registeredContexts.has(ctx)) return;
+
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    registeredContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function createPcmCaptureNode(
+  ctx: BaseAudioContext,
+  onFrame: (frame: PcmFrame) => void,
+  options: PcmCaptureOptions = {}
+): Promise<AudioWorkletNode> {
+  await registerProcessor(ctx);
+
+  const targetSampleRate = options.targetSampleRate ?? TARGET_SAMPLE_RATE;
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: {
+      targetSampleRate,
+      frameSize: options.frameSize ?? frameSizeFor(targetSampleRate),
+    },
+  });
+
+  node.port.onmessage = (e: MessageEvent<PcmFrame>) => onFrame(e.data);
+  return node;
+}
@@ -0,0 +1,64 @@
+import { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { LiveTransport, LiveTransportSession } from './transport';
+import { FIXTURE_FORMAT, FIXTURE_VERSION, LiveFixture, LiveFixtureEvent, LiveFixturePayload } from './liveFixture';
+
+// Wraps another transport and records every server message, close and error
+// it delivers, so a real session can be turned into a replayable fixture.
+export class RecordingTransport implements LiveTransport {
+  public readonly label: string;
+  private events: LiveFixtureEvent[] = [];
+  private startedAt: number | null = null;
+
+  constructor(private inner: LiveTransport) {
+    this.label = `${inner.label} (recording)`;
+  }
+
+  public get eventCount(): number {
+    return this.events.length;
+  }
+
+  public clear() {
+    this.events = [];
+    this.startedAt = null;
+  }
+
+  public toFixture(name = 'Recorded session'): LiveFixture {
+    return {
+      format: FIXTURE_FORMAT,
+      version: FIXTURE_VERSION,
+      name,
+      recordedAt: new Date(this.startedAt ?? Date.now()).toISOString(),
+      events: this.events,
+    };
+  }
+
+  private record(payload: LiveFixturePayload) {
+    if (this.startedAt === null) this.startedAt = Date.now();
+    this.events.push({ ...payload, at: Date.now() - this.startedAt });
+  }
+
+  public connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    if (this.startedAt === null) this.startedAt = Date.now();
+    const { callbacks } = params;
+
+    return this.inner.connect({
+      ...params,
+      callbacks: {
+        onopen: callbacks.onopen,
+        onmessage: (message: LiveServerMessage) => {
+          // Round-trip through JSON to keep only the serializable fields
+          this.record({ message: JSON.parse(JSON.stringify(message)) });
+          callbacks.onmessage(message);
+        },
+        onclose: (e: CloseEvent) => {
+          this.record({ close: { code: e.code, reason: e.reason } });
+          callbacks.onclose?.(e);
+        },
+        onerror: (e: ErrorEvent) => {
+          this.record({ error: e.message || 'Connection error' });
+          callbacks.onerror?.(e);
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { GenerateContentParameters } from '@google/genai';
+
+const ACCESS_KEY_STORAGE_KEY = 'gemini-live-monitor.relayAccessKey';
+
+// The relay serves the app, and the dev server proxies /api to it, so calls stay same-origin
+const RELAY_API = '/api';
+
+export function loadRelayAccessKey(): string {
+  try {
+    return localStorage.getItem(ACCESS_KEY_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveRelayAccessKey(key: string) {
+  if (key) localStorage.setItem(ACCESS_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(ACCESS_KEY_STORAGE_KEY);
+}
+
+export class RelayError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+async function relayPost<T>(path: string, body: unknown): Promise<T> {
+  const accessKey = loadRelayAccessKey();
+  let response: Response;
+  try {
+    response = await fetch(`${RELAY_API}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessKey && { Authorization: `Bearer ${accessKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new RelayError('Could not reach the relay server. Is it running (npm run relay)?', 0);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (response.ok && payload) return payload as T;
+
+  const reason = payload?.error ?? `${response.status} ${response.statusText}`.trim();
+  const hint = response.status === 401 ? ' Set your access key in the Dev menu.' : '';
+  throw new RelayError(`Relay: ${reason}.${hint}`, response.status);
+}
+
+// A single-use ephemeral token for opening one Live session on `model`
+export async function fetchLiveToken(model: string): Promise<string> {
+  const { token } = await relayPost<{ token: string; expiresAt: string }>('/live-token', { model });
+  return token;
+}
+
+// Runs a text generation on the relay and returns the response text. Only the
+// model, a string prompt and the response format settings are passed on.
+export async function generateViaRelay(params: GenerateContentParameters): Promise<string> {
+  const { text } = await relayPost<{ text: string }>('/generate', params);
+  return text;
+}
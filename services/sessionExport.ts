@@ -0,0 +1,287 @@
+import { DetectedIntent, MonitoringSession, SessionReport, TranscriptSegment, WatchAlert } from '../types';
+import { upgradeSession } from './sessionStore';
+import { collectSpeakers, speakerLabel } from './speakers';
+import { languageName } from './translation';
+import { passageLabel } from './knowledgeBase';
+
+export type ExportFormat = 'markdown' | 'json' | 'vtt' | 'srt';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown meeting log', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  vtt: { label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+  srt: { label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+};
+
+// Versioned envelope for JSON exports. Bump SESSION_EXPORT_VERSION on any
+// breaking change to MonitoringSession and teach parseSessionJson to migrate.
+export const SESSION_EXPORT_FORMAT = 'gemini-live-monitor/session';
+// v2: transcript segments carry endTimestamp
+export const SESSION_EXPORT_VERSION = 2;
+
+export interface SessionExportEnvelope {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: MonitoringSession;
+}
+
+// Cues use the segment's own start and end. Segments imported from older
+// exports (or a single transcription update) have no real span, so those fall
+// back to a speaking-rate estimate ending at the recorded time.
+const CAPTION_SECONDS_PER_WORD = 0.4;
+const CAPTION_MIN_SECONDS = 1;
+const CAPTION_MIN_SPAN_MS = 500;
+
+interface Cue {
+  start: number; // ms from session start
+  end: number;
+  text: string;
+  speaker?: string; // Display name
+  translation?: string;
+}
+
+function buildCues(session: MonitoringSession): Cue[] {
+  const cues: Cue[] = [];
+  let previousEnd = 0;
+  for (const segment of session.transcript) {
+    const end = Math.max(segment.endTimestamp - session.startedAt, previousEnd);
+    let start = segment.timestamp - session.startedAt;
+    if (end - start < CAPTION_MIN_SPAN_MS) {
+      const words = segment.text.trim().split(/\s+/).length;
+      start = end - (words * CAPTION_SECONDS_PER_WORD + CAPTION_MIN_SECONDS) * 1000;
+    }
+    start = Math.max(previousEnd, start);
+    cues.push({
+      start,
+      end,
+      text: segment.text.trim(),
+      speaker: segment.speaker && speakerLabel(segment.speaker, session.speakerNames),
+      translation: segment.translation?.trim(),
+    });
+    previousEnd = end;
+  }
+  return cues;
+}
+
+function pad(value: number, width = 2): string {
+  return String(Math.floor(value)).padStart(width, '0');
+}
+
+function formatCaptionTime(ms: number, fractionSeparator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = totalMs / 3600000;
+  const minutes = (totalMs % 3600000) / 60000;
+  const seconds = (totalMs % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(totalMs % 1000, 3)}`;
+}
+
+function formatOffset(ms: number): string {
+  return formatCaptionTime(ms, '.').slice(0, 8);
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+// Cue text is markup in WebVTT. Escaping '>' as well keeps '-->' out of the
+// payload, where it would be read as a timing line.
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// SRT has no escapes; a spoken '-->' just has to stop looking like a timing line
+const breakArrows = (text: string) => text.replace(/-->/g, '-- >');
+
+export function toWebVtt(session: MonitoringSession): string {
+  const body = buildCues(session)
+    .map((cue, i) => {
+      // WebVTT voice spans; the escaped name can't end the tag early
+      const text = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}` : escapeVtt(cue.text);
+      const translation = cue.translation ? `\n<i>${escapeVtt(cue.translation)}</i>` : '';
+      return `${i + 1}\n${formatCaptionTime(cue.start, '.')} --> ${formatCaptionTime(cue.end, '.')}\n${text}${translation}`;
+    })
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+export function toSrt(session: MonitoringSession): string {
+  return buildCues(session)
+    .map((cue, i) => {
+      const text = breakArrows(cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text);
+      const translation = cue.translation ? `\n<i>${breakArrows(cue.translation)}</i>` : '';
+      return `${i + 1}\n${formatCaptionTime(cue.start, ',')} --> ${formatCaptionTime(cue.end, ',')}\n${text}${translation}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+const CITATION_EXCERPT_CHARS = 160;
+
+// A cited passage on one line, cut at a word boundary
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= CITATION_EXCERPT_CHARS) return flat;
+  const cut = flat.slice(0, CITATION_EXCERPT_CHARS);
+  const space = cut.lastIndexOf(' ');
+  return `${space > 0 ? cut.slice(0, space) : cut}…`;
+}
+
+function intentToMarkdown(intent: DetectedIntent, session: MonitoringSession): string {
+  const speaker = intent.speaker ? ` · ${speakerLabel(intent.speaker, session.speakerNames)}` : '';
+  const lines = [
+    `### ${intent.type} · ${formatClock(intent.timestamp)} (+${formatOffset(intent.timestamp - session.startedAt)})${speaker}`,
+    '',
+    `> ${intent.text}`,
+  ];
+  if (intent.originalText) {
+    lines.push('>', `> _Original:_ ${intent.originalText}`);
+  }
+  if (intent.answer) {
+    lines.push('', `**Answer:** ${intent.answer}`);
+  }
+  if (intent.citations?.length) {
+    lines.push('', '**Sources:**', ...intent.citations.map(c => `- ${passageLabel(c)}: "${excerpt(c.text)}"`));
+  }
+  if (intent.execution) {
+    const { command, status, output } = intent.execution;
+    lines.push('', `**Command:** \`${command}\` (${status})${output ? ` — ${output}` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+function alertToMarkdown(alert: WatchAlert, session: MonitoringSession): string {
+  const speaker = alert.speaker ? ` (${speakerLabel(alert.speaker, session.speakerNames)})` : '';
+  return `- \`[${formatOffset(alert.timestamp - session.startedAt)}]\` **${alert.severity}** · "${alert.match}" matched \`${alert.pattern}\`${speaker}`;
+}
+
+function segmentToMarkdown(segment: TranscriptSegment, session: MonitoringSession): string {
+  const speaker = segment.speaker ? `**${speakerLabel(segment.speaker, session.speakerNames)}:** ` : '';
+  const line = `- \`[${formatOffset(segment.timestamp - session.startedAt)}]\` ${speaker}${segment.text.trim()}`;
+  return segment.translation ? `${line}\n  - _${segment.translation.trim()}_` : line;
+}
+
+function reportToMarkdown(report: SessionReport): string[] {
+  const list = (items: string[]) => (items.length > 0 ? items.map(item => `- ${item}`) : ['_None._']);
+  return [
+    '## Summary', '', report.summary, '',
+    '## Decisions', '', ...list(report.decisions), '',
+    '## Action items', '',
+    ...(report.actionItems.length > 0
+      ? report.actionItems.map(item => `- [ ] ${item.task}${item.owner ? ` — **${item.owner}**` : ''}`)
+      : ['_None._']),
+    '',
+    '## Unanswered questions', '', ...list(report.openQuestions), '',
+  ];
+}
+
+export function toMarkdown(session: MonitoringSession): string {
+  const started = new Date(session.startedAt);
+  const lines = [
+    `# Meeting log — ${started.toLocaleDateString()} ${formatClock(session.startedAt)}`,
+    '',
+    `- **Started:** ${started.toLocaleString()}`,
+  ];
+  if (session.endedAt) {
+    lines.push(
+      `- **Ended:** ${new Date(session.endedAt).toLocaleString()}`,
+      `- **Duration:** ${formatOffset(session.endedAt - session.startedAt)}`
+    );
+  }
+  const speakers = collectSpeakers([...session.transcript, ...session.intents]);
+  if (speakers.length > 0) {
+    lines.push(`- **Speakers:** ${speakers.map(s => speakerLabel(s, session.speakerNames)).join(', ')}`);
+  }
+  if (session.translation) {
+    const { sourceLanguage, targetLanguage } = session.translation;
+    lines.push(`- **Translation:** ${languageName(sourceLanguage)} → ${languageName(targetLanguage)}`);
+  }
+  lines.push(`- **Intents detected:** ${session.intents.length}`, '');
+
+  if (session.report) {
+    lines.push(...reportToMarkdown(session.report));
+  }
+
+  lines.push('## Intents', '');
+  if (session.intents.length === 0) {
+    lines.push('_No intents detected._', '');
+  } else {
+    session.intents.forEach(intent => lines.push(intentToMarkdown(intent, session), ''));
+  }
+
+  if (session.alerts?.length) {
+    lines.push('## Watchlist alerts', '');
+    session.alerts.forEach(alert => lines.push(alertToMarkdown(alert, session)));
+    lines.push('');
+  }
+
+  lines.push('## Transcript', '');
+  if (session.transcript.length === 0) {
+    lines.push('_No transcript recorded._', '');
+  } else {
+    session.transcript.forEach(segment => lines.push(segmentToMarkdown(segment, session)));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function toJson(session: MonitoringSession): string {
+  const envelope: SessionExportEnvelope = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+// Validates a JSON export and returns the session it contains
+export function parseSessionJson(text: string): MonitoringSession {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (parsed?.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error('File is not a Gemini Live Monitor session export');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported session export version: ${parsed.version}`);
+  }
+
+  const session = parsed.session;
+  if (
+    typeof session?.id !== 'string' ||
+    typeof session.startedAt !== 'number' ||
+    !Array.isArray(session.transcript) ||
+    !Array.isArray(session.intents)
+  ) {
+    throw new Error('Session export is missing required fields');
+  }
+
+  return upgradeSession(session as MonitoringSession);
+}
+
+export function exportSession(session: MonitoringSession, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(session);
+    case 'json': return toJson(session);
+    case 'vtt': return toWebVtt(session);
+    case 'srt': return toSrt(session);
+  }
+}
+
+export function downloadSession(session: MonitoringSession, format: ExportFormat) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const blob = new Blob([exportSession(session, format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const stamp = new Date(session.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `session-${stamp}.${extension}`;
+  link.click();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
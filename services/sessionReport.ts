@@ -0,0 +1,129 @@
+import { Type } from '@google/genai';
+import { ActionItem, MonitoringSession, SessionReport } from '../types';
+import { speakerLabel } from './speakers';
+import { languageName } from './translation';
+import { generateViaRelay } from './relay';
+import { TEXT_MODELS } from '../server/models.mjs';
+
+// A standard text model: the report is written once, after the run, from the whole transcript
+export const REPORT_MODEL = TEXT_MODELS[0];
+
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: 'What the conversation was about and where it ended up, in one short paragraph.'
+    },
+    decisions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Decisions that were agreed on, one per item.'
+    },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING, description: 'Who took the task on; omit when nobody did.' }
+        },
+        required: ['task']
+      }
+    },
+    openQuestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Questions that were asked but not answered by the end.'
+    }
+  },
+  required: ['summary', 'decisions', 'actionItems', 'openQuestions']
+};
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function buildReportPrompt(session: MonitoringSession): string {
+  const names = session.speakerNames;
+  const transcript = session.transcript.map(segment => {
+    const speaker = segment.speaker ? `${speakerLabel(segment.speaker, names)}: ` : '';
+    const translation = segment.translation ? ` (${segment.translation.trim()})` : '';
+    return `[${formatOffset(segment.timestamp - session.startedAt)}] ${speaker}${segment.text.trim()}${translation}`;
+  });
+  const intents = session.intents.map(intent => {
+    const speaker = intent.speaker ? ` (${speakerLabel(intent.speaker, names)})` : '';
+    const answer = intent.answer ? ` -> answered: ${intent.answer}` : '';
+    return `- ${intent.type}${speaker}: ${intent.text}${answer}`;
+  });
+  const language = session.translation
+    ? `Write the report in ${languageName(session.translation.targetLanguage)}.`
+    : 'Write the report in the language of the conversation.';
+
+  return `You are writing the notes for a meeting that has just ended.
+From the transcript and the intents detected live, produce:
+- a short summary,
+- the decisions that were made,
+- the action items, each with its owner when someone took it on (use the speaker's name or label),
+- the questions that were asked and never answered.
+Only include what the conversation supports; leave a list empty rather than guessing. ${language}
+
+Transcript:
+${transcript.join('\n') || '(empty)'}
+
+Detected intents:
+${intents.join('\n') || '(none)'}`;
+}
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+// Validates the model's JSON; anything missing becomes empty rather than failing the report
+export function parseReport(text: string, model: string): SessionReport {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The report model returned invalid JSON');
+  }
+  if (typeof parsed?.summary !== 'string') {
+    throw new Error('The report is missing a summary');
+  }
+
+  const actionItems: ActionItem[] = (Array.isArray(parsed.actionItems) ? parsed.actionItems : [])
+    .filter((item: any) => typeof item?.task === 'string' && item.task.trim())
+    .map((item: any) => ({
+      task: item.task.trim(),
+      ...(typeof item.owner === 'string' && item.owner.trim() && { owner: item.owner.trim() }),
+    }));
+
+  return {
+    summary: parsed.summary.trim(),
+    decisions: asStrings(parsed.decisions),
+    actionItems,
+    openQuestions: asStrings(parsed.openQuestions),
+    model,
+    generatedAt: Date.now(),
+  };
+}
+
+// Reports are written through the relay server, which holds the API key
+export class SessionReporter {
+  constructor(private model: string = REPORT_MODEL) {}
+
+  public async generate(session: MonitoringSession): Promise<SessionReport> {
+    const text = await generateViaRelay({
+      model: this.model,
+      contents: buildReportPrompt(session),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: REPORT_SCHEMA,
+      },
+    });
+    if (!text) {
+      throw new Error('The report model returned no text');
+    }
+    return parseReport(text, this.model);
+  }
+}
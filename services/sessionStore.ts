@@ -0,0 +1,120 @@
+import { KnowledgeDocument, MonitoringSession, SessionAudio } from '../types';
+
+// Local persistence for monitoring sessions (IndexedDB)
+const DB_NAME = 'gemini-live-monitor';
+// v2 adds the audio store, v3 the knowledge base
+const DB_VERSION = 3;
+const SESSION_STORE = 'sessions';
+// Recordings live in their own store so listing sessions doesn't load them
+const AUDIO_STORE = 'audio';
+const KNOWLEDGE_STORE = 'knowledge';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(KNOWLEDGE_STORE)) {
+          db.createObjectStore(KNOWLEDGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry opening
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open session database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Wraps a single-store transaction and resolves with the request's result once committed
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SESSION_STORE
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Session database transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Session database transaction aborted'));
+  });
+}
+
+// Sessions stored before segments had an end time only recorded one timestamp
+export function upgradeSession(session: MonitoringSession): MonitoringSession {
+  return {
+    ...session,
+    transcript: session.transcript.map(segment => ({
+      ...segment,
+      endTimestamp: segment.endTimestamp ?? segment.timestamp,
+    })),
+  };
+}
+
+export async function saveSession(session: MonitoringSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function getSession(id: string): Promise<MonitoringSession | undefined> {
+  const session = await withStore('readonly', store => store.get(id) as IDBRequest<MonitoringSession | undefined>);
+  return session && upgradeSession(session);
+}
+
+// Most recent first
+export async function listSessions(): Promise<MonitoringSession[]> {
+  const sessions = await withStore('readonly', store =>
+    store.index('startedAt').getAll() as IDBRequest<MonitoringSession[]>
+  );
+  return sessions.reverse().map(upgradeSession);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  await deleteSessionAudio(id);
+}
+
+export async function saveSessionAudio(audio: SessionAudio): Promise<void> {
+  await withStore('readwrite', store => store.put(audio), AUDIO_STORE);
+}
+
+export async function getSessionAudio(sessionId: string): Promise<SessionAudio | undefined> {
+  return withStore('readonly', store => store.get(sessionId) as IDBRequest<SessionAudio | undefined>, AUDIO_STORE);
+}
+
+export async function deleteSessionAudio(sessionId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(sessionId), AUDIO_STORE);
+}
+
+// Oldest first
+export async function listKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+  const documents = await withStore(
+    'readonly',
+    store => store.getAll() as IDBRequest<KnowledgeDocument[]>,
+    KNOWLEDGE_STORE
+  );
+  return documents.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export async function saveKnowledgeDocument(document: KnowledgeDocument): Promise<void> {
+  await withStore('readwrite', store => store.put(document), KNOWLEDGE_STORE);
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id), KNOWLEDGE_STORE);
+}
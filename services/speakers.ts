@@ -0,0 +1,103 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { DiarizationSettings, SpeakerNames } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.diarization';
+
+export const DEFAULT_DIARIZATION_SETTINGS: DiarizationSettings = {
+  enabled: false,
+  stereoChannels: false,
+};
+
+export function loadDiarizationSettings(): DiarizationSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_DIARIZATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DIARIZATION_SETTINGS;
+  } catch {
+    return DEFAULT_DIARIZATION_SETTINGS;
+  }
+}
+
+export function saveDiarizationSettings(settings: DiarizationSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function speakerLabel(speaker: string, names: SpeakerNames = {}): string {
+  return names[speaker]?.trim() || `Speaker ${speaker}`;
+}
+
+// Speakers in order of first appearance
+export function collectSpeakers(items: { speaker?: string }[]): string[] {
+  const seen = new Set<string>();
+  items.forEach(item => item.speaker && seen.add(item.speaker));
+  return [...seen];
+}
+
+// Normalizes whatever the model sent ("2", 2, "Speaker 2") to a speaker id
+export function parseSpeaker(value: unknown): string | undefined {
+  const match = String(value ?? '').match(/\d+/);
+  if (!match) return undefined;
+  const n = Number(match[0]);
+  return n >= 1 ? String(n) : undefined;
+}
+
+export const REPORT_SPEAKER_TOOL: FunctionDeclaration = {
+  name: 'report_speaker',
+  description: 'Report which voice is speaking in the current turn.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      speaker: {
+        type: Type.INTEGER,
+        description: 'Number of the speaker: 1 for the first distinct voice heard, 2 for the second, and so on.'
+      }
+    },
+    required: ['speaker']
+  }
+};
+
+export function buildSpeakerInstruction(): string {
+  return `
+  **Speakers**: Several people may be talking. Tell their voices apart and number
+  them in order of first appearance (1, 2, 3, ...), keeping each number for the
+  same voice for the whole conversation.
+     - Call 'report_speaker' with the speaker's number whenever a different voice starts talking.
+     - Include 'speaker' in every 'report_intent' call.
+`;
+}
+
+// Channel-split attribution for recordings where each speaker has their own
+// channel (e.g. a call recorded with local mic on the left and remote on the
+// right): channel 1 is Speaker 1, channel 2 is Speaker 2, and so on.
+// Energy is smoothed so single loud frames don't flip the speaker.
+const STEREO_SMOOTHING = 0.3;
+// The loudest channel must lead every other one by this much
+const STEREO_DOMINANCE_DB = 6;
+// Channels quieter than this are treated as silent
+const STEREO_MIN_LEVEL_DB = -50;
+
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-8));
+
+export class StereoSpeakerDetector {
+  private levels: number[] = [];
+
+  public reset() {
+    this.levels = [];
+  }
+
+  // Returns the dominant speaker, or null when no channel clearly leads
+  public push(channelRms: number[]): string | null {
+    channelRms.forEach((rms, c) => {
+      const db = toDb(rms);
+      this.levels[c] = this.levels[c] === undefined ? db : this.levels[c] + (db - this.levels[c]) * STEREO_SMOOTHING;
+    });
+
+    let loudest = -1;
+    this.levels.forEach((db, c) => {
+      if (loudest < 0 || db > this.levels[loudest]) loudest = c;
+    });
+    if (loudest < 0 || this.levels[loudest] < STEREO_MIN_LEVEL_DB) return null;
+
+    const leads = this.levels.every((db, c) => c === loudest || this.levels[loudest] - db >= STEREO_DOMINANCE_DB);
+    return leads ? String(loudest + 1) : null;
+  }
+}
@@ -0,0 +1,102 @@
+import { TranscriptSegment } from '../types';
+
+// If the server never signals the end of a turn (e.g. the model stays silent
+// and sends no turnComplete), close the segment after this much quiet.
+const IDLE_FINALIZE_MS = 4000;
+
+// Turns the server's input transcription stream into timestamped segments.
+// A segment stays partial until the server reports the turn complete or the
+// transcription finished; every change is reported through `onUpdate`,
+// including a translation added to a turn that is already final.
+export class TranscriptSegmenter {
+  private current: TranscriptSegment | null = null;
+  // Most recently finalized turn; a translation can still arrive for it
+  private last: TranscriptSegment | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Last attributed speaker; new turns keep it until someone else is reported
+  private speaker: string | undefined;
+
+  constructor(private onUpdate: (segment: TranscriptSegment) => void) {}
+
+  // The server sends each piece of the transcription once, as a delta that
+  // carries its own leading space, so pieces are joined as they come
+  public ingest(text: string) {
+    const now = Date.now();
+
+    if (!this.current) {
+      this.current = {
+        id: crypto.randomUUID(),
+        text: text.trimStart(),
+        timestamp: now,
+        endTimestamp: now,
+        isFinal: false,
+        ...(this.speaker && { speaker: this.speaker }),
+      };
+    } else {
+      this.current = { ...this.current, text: this.current.text + text, endTimestamp: now };
+    }
+
+    this.onUpdate(this.current);
+    this.armIdleTimer();
+  }
+
+  // Attributes the turn in progress (and following ones) to `speaker`
+  public setSpeaker(speaker: string) {
+    this.speaker = speaker;
+    if (this.current && this.current.speaker !== speaker) {
+      this.current = { ...this.current, speaker };
+      this.onUpdate(this.current);
+    }
+  }
+
+  // Attaches a translation to the turn it most likely belongs to. The model
+  // usually translates once the server has closed the turn, so an untranslated
+  // finished turn comes first; partial translations of one turn are joined.
+  public addTranslation(translation: string) {
+    const text = translation.trim();
+    if (!text) return;
+
+    const target = this.last && !this.last.translation ? this.last : this.current ?? this.last;
+    if (!target) return;
+    const updated = { ...target, translation: target.translation ? `${target.translation} ${text}` : text };
+    if (target === this.current) this.current = updated;
+    else this.last = updated;
+    this.onUpdate(updated);
+  }
+
+  public get currentSpeaker(): string | undefined {
+    return this.speaker;
+  }
+
+  // Drops any open turn without emitting it, e.g. when a new run starts
+  public reset() {
+    this.clearIdleTimer();
+    this.current = null;
+    this.last = null;
+    this.speaker = undefined;
+  }
+
+  public finalize() {
+    this.clearIdleTimer();
+    if (!this.current) return;
+
+    const segment = { ...this.current, text: this.current.text.trim(), isFinal: true };
+    this.current = null;
+    if (segment.text) {
+      this.last = segment;
+      this.onUpdate(segment);
+    }
+  }
+
+  private armIdleTimer() {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => this.finalize(), IDLE_FINALIZE_MS);
+  }
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { TranslationSettings } from '../types';
+
+export const AUTO_DETECT = 'auto';
+
+// Languages offered in the settings. The model is told them by name; the
+// transcription itself always detects the spoken language
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+];
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  enabled: false,
+  sourceLanguage: AUTO_DETECT,
+  targetLanguage: 'en',
+};
+
+export function languageName(code: string): string {
+  if (code === AUTO_DETECT) return 'Auto-detect';
+  return LANGUAGES.find(l => l.code === code)?.name ?? code;
+}
+
+// The input language only goes into the instruction, so it is checked against
+// the languages the instruction can name and nothing else
+export function validateTranslation(settings: TranslationSettings): string[] {
+  if (!settings.enabled) return [];
+  const problems: string[] = [];
+  if (!LANGUAGES.some(l => l.code === settings.targetLanguage)) {
+    problems.push(`Unknown target language "${settings.targetLanguage}".`);
+  }
+  if (settings.sourceLanguage !== AUTO_DETECT && !LANGUAGES.some(l => l.code === settings.sourceLanguage)) {
+    problems.push(`Unknown input language "${settings.sourceLanguage}".`);
+  }
+  if (settings.sourceLanguage === settings.targetLanguage) {
+    problems.push('Input and target language must differ.');
+  }
+  return problems;
+}
+
+export const REPORT_TRANSLATION_TOOL: FunctionDeclaration = {
+  name: 'report_translation',
+  description: 'Report the translation of what was just said.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      translation: {
+        type: Type.STRING,
+        description: 'The complete translation of the utterance that just ended.'
+      }
+    },
+    required: ['translation']
+  }
+};
+
+export function buildTranslationInstruction(settings: TranslationSettings): string {
+  const source = settings.sourceLanguage === AUTO_DETECT
+    ? 'whatever language is spoken'
+    : languageName(settings.sourceLanguage);
+  const target = languageName(settings.targetLanguage);
+  return `
+  **Translation**: The conversation is in ${source}; the reader only follows ${target}.
+     - After every utterance, call 'report_translation' with a faithful ${target} translation of it, even when no category applies.
+     - In 'report_intent', write 'text' and 'answer' in ${target} and put the speaker's exact words, untranslated, in 'original_text'.
+     - Say any spoken answers in ${target}.
+`;
+}
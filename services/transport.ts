@@ -0,0 +1,50 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { fetchLiveToken } from './relay';
+
+// The subset of the SDK's Session that LiveManager relies on. Anything that
+// can open a session with these methods can stand in for the Gemini socket.
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  // Human-readable name, shown in the UI and logs
+  readonly label: string;
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+// A Gemini Live socket opened with an API key held by the caller. Only for
+// trusted environments (scripts, tests): in the browser, use RelayTransport.
+export class GeminiTransport implements LiveTransport {
+  public readonly label = 'Gemini Live';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  public connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    return this.ai.live.connect(params);
+  }
+}
+
+// The real thing in the browser: a Gemini Live socket opened with an ephemeral
+// token from the relay server, which keeps the API key. Every connect, resumed
+// reconnects included, asks for a fresh token.
+export class RelayTransport implements LiveTransport {
+  public readonly label = 'Gemini Live (relay)';
+
+  public async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const token = await fetchLiveToken(params.model);
+    // Ephemeral tokens are only accepted by the v1alpha API
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    return ai.live.connect(params);
+  }
+}
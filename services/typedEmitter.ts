@@ -0,0 +1,47 @@
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+// Event name -> listener arguments, e.g. `{ error: [error: Error]; done: [] }`
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+// A small typed event emitter. Any number of listeners per event, called in
+// the order they subscribed. A listener that throws is logged and skipped, so
+// one subscriber can't break the others or the emitting code.
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns a function that unsubscribes the listener
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const unsubscribe = this.on(event, (...args) => {
+      unsubscribe();
+      listener(...args);
+    });
+    return unsubscribe;
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  public removeAllListeners(event?: keyof Events) {
+    if (event) delete this.listeners[event];
+    else this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+    // A copy, so listeners added or removed while emitting take effect next time
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args);
+      } catch (err) {
+        console.error(`Listener for "${String(event)}" failed`, err);
+      }
+    }
+  }
+}
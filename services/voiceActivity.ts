@@ -0,0 +1,143 @@
+import { PcmFrame } from './pcmCaptureWorklet';
+import { VadSettings } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.vadSettings';
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  mode: 'off',
+  thresholdDb: 12,
+  minLevelDb: -55,
+  hangoverMs: 800,
+  preRollMs: 300,
+  pushToTalkKey: 'Space',
+};
+
+// Closing needs the level to drop this far below the opening threshold, so
+// speech hovering around the threshold doesn't flap the gate.
+const HYSTERESIS_DB = 4;
+// Noise floor tracking: drop quickly towards quieter input, rise slowly
+const FLOOR_FALL = 0.3;
+const FLOOR_RISE = 0.02;
+const INITIAL_FLOOR_DB = -60;
+
+export function loadVadSettings(): VadSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_VAD_SETTINGS, ...JSON.parse(raw) } : DEFAULT_VAD_SETTINGS;
+  } catch {
+    return DEFAULT_VAD_SETTINGS;
+  }
+}
+
+export function saveVadSettings(settings: VadSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export interface GateResult {
+  activityStart: boolean;
+  frames: PcmFrame[];
+  activityEnd: boolean;
+}
+
+const frameMs = (frame: PcmFrame) => (frame.pcm.length / frame.sampleRate) * 1000;
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-8));
+
+// Decides which captured frames are worth sending. In 'vad' mode speech is
+// detected as energy well above an adaptive noise floor; in 'pushToTalk' mode
+// the key state stands in for the detector. Both share hangover and pre-roll.
+export class VoiceActivityGate {
+  private active = false;
+  private silenceMs = 0;
+  private preRoll: PcmFrame[] = [];
+  private preRollMs = 0;
+  private noiseFloorDb = INITIAL_FLOOR_DB;
+  private talkKeyDown = false;
+
+  constructor(private settings: VadSettings = DEFAULT_VAD_SETTINGS) {}
+
+  public get isActive(): boolean {
+    return this.active;
+  }
+
+  public updateSettings(settings: VadSettings) {
+    this.settings = settings;
+  }
+
+  public setPushToTalk(pressed: boolean) {
+    this.talkKeyDown = pressed;
+  }
+
+  public reset() {
+    this.active = false;
+    this.silenceMs = 0;
+    this.preRoll = [];
+    this.preRollMs = 0;
+    this.noiseFloorDb = INITIAL_FLOOR_DB;
+    this.talkKeyDown = false;
+  }
+
+  public push(frame: PcmFrame): GateResult {
+    const result: GateResult = { activityStart: false, frames: [], activityEnd: false };
+
+    if (this.settings.mode === 'off') {
+      result.frames.push(frame);
+      return result;
+    }
+
+    const voiced = this.isVoiced(frame);
+
+    if (!this.active) {
+      if (voiced) {
+        this.active = true;
+        this.silenceMs = 0;
+        result.activityStart = true;
+        result.frames.push(...this.preRoll, frame);
+        this.preRoll = [];
+        this.preRollMs = 0;
+      } else {
+        this.addPreRoll(frame);
+      }
+      return result;
+    }
+
+    result.frames.push(frame);
+    if (voiced) {
+      this.silenceMs = 0;
+    } else {
+      this.silenceMs += frameMs(frame);
+      if (this.silenceMs >= this.settings.hangoverMs) {
+        this.active = false;
+        result.activityEnd = true;
+      }
+    }
+    return result;
+  }
+
+  private isVoiced(frame: PcmFrame): boolean {
+    if (this.settings.mode === 'pushToTalk') return this.talkKeyDown;
+
+    const levelDb = toDb(frame.rms);
+    const openDb = Math.max(this.noiseFloorDb + this.settings.thresholdDb, this.settings.minLevelDb);
+    const thresholdDb = this.active ? openDb - HYSTERESIS_DB : openDb;
+    const voiced = levelDb > thresholdDb;
+
+    // Only learn the floor from non-speech, so a long talker doesn't raise it
+    if (!voiced) {
+      const rate = levelDb < this.noiseFloorDb ? FLOOR_FALL : FLOOR_RISE;
+      this.noiseFloorDb += (levelDb - this.noiseFloorDb) * rate;
+    }
+    return voiced;
+  }
+
+  private addPreRoll(frame: PcmFrame) {
+    this.preRoll.push(frame);
+    this.preRollMs += frameMs(frame);
+    while (this.preRoll.length > 1 && this.preRollMs - frameMs(this.preRoll[0]) >= this.settings.preRollMs) {
+      this.preRollMs -= frameMs(this.preRoll.shift()!);
+    }
+    if (this.settings.preRollMs <= 0) {
+      this.preRoll = [];
+      this.preRollMs = 0;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { TranscriptSegment, WatchAlert, WatchlistSettings, WatchSeverity, WatchTerm } from '../types';
+
+const STORAGE_KEY = 'gemini-live-monitor.watchlist';
+
+export const WATCH_SEVERITIES: WatchSeverity[] = ['info', 'warning', 'critical'];
+
+export const DEFAULT_WATCHLIST_SETTINGS: WatchlistSettings = {
+  terms: [],
+  notify: false,
+  sound: false,
+};
+
+export function loadWatchlistSettings(): WatchlistSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_WATCHLIST_SETTINGS, ...JSON.parse(raw) } : DEFAULT_WATCHLIST_SETTINGS;
+  } catch {
+    return DEFAULT_WATCHLIST_SETTINGS;
+  }
+}
+
+export function saveWatchlistSettings(settings: WatchlistSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Returns a list of human-readable problems; empty when every term can be matched
+export function validateWatchTerms(terms: WatchTerm[]): string[] {
+  const problems: string[] = [];
+  terms.forEach((term, i) => {
+    const label = term.pattern.trim() ? `"${term.pattern}"` : `Term ${i + 1}`;
+    if (!term.pattern.trim()) {
+      problems.push(`${label}: pattern is required.`);
+      return;
+    }
+    if (term.kind !== 'regex') return;
+    try {
+      if (new RegExp(term.pattern, 'i').test('')) {
+        problems.push(`${label}: the expression matches empty text.`);
+      }
+    } catch (err) {
+      problems.push(`${label}: ${err instanceof Error ? err.message : 'invalid regular expression'}.`);
+    }
+  });
+  return problems;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only knows ASCII letters, so words are delimited with Unicode-aware lookarounds
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{N}_])';
+
+export interface CompiledWatchTerm {
+  term: WatchTerm;
+  regex: RegExp;
+}
+
+// Terms that don't compile are skipped; the editor refuses to save them anyway
+export function compileWatchTerms(terms: WatchTerm[]): CompiledWatchTerm[] {
+  return terms.flatMap(term => {
+    const pattern = term.pattern.trim();
+    if (!pattern) return [];
+    try {
+      if (term.kind === 'regex') return [{ term, regex: new RegExp(pattern, 'gi') }];
+      // Phrases tolerate any whitespace between their words
+      const body = term.kind === 'phrase'
+        ? pattern.split(/\s+/).map(escapeRegExp).join('\\s+')
+        : escapeRegExp(pattern);
+      return [{ term, regex: new RegExp(`${WORD_START}${body}${WORD_END}`, 'giu') }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export interface WatchMatch {
+  term: WatchTerm;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const SEVERITY_RANK: Record<WatchSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+// All matches in reading order. Where matches overlap, the more severe (then
+// the earlier) one wins, so highlighted ranges never nest.
+export function findWatchMatches(text: string, compiled: CompiledWatchTerm[]): WatchMatch[] {
+  const all: WatchMatch[] = [];
+  for (const { term, regex } of compiled) {
+    regex.lastIndex = 0;
+    for (const m of text.matchAll(regex)) {
+      if (!m[0]) continue;
+      all.push({ term, start: m.index!, end: m.index! + m[0].length, text: m[0] });
+    }
+  }
+
+  all.sort((a, b) => SEVERITY_RANK[b.term.severity] - SEVERITY_RANK[a.term.severity] || a.start - b.start);
+  const kept: WatchMatch[] = [];
+  for (const match of all) {
+    if (!kept.some(k => match.start < k.end && k.start < match.end)) kept.push(match);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+// Turns segment updates into alerts. The server resends a turn's text as it
+// grows, so a match is identified by its segment, term and which occurrence
+// of that text it is, and alerts only once. A match touching the end of a
+// partial segment may still grow ("dead" -> "deadline"), so it waits for more text.
+export class WatchlistMatcher {
+  private compiled: CompiledWatchTerm[] = [];
+  private seen = new Set<string>();
+
+  public setTerms(terms: WatchTerm[]) {
+    this.compiled = compileWatchTerms(terms);
+  }
+
+  public reset() {
+    this.seen.clear();
+  }
+
+  public scan(segment: TranscriptSegment): WatchAlert[] {
+    if (this.compiled.length === 0) return [];
+
+    const text = segment.text;
+    const occurrences = new Map<string, number>();
+    const alerts: WatchAlert[] = [];
+
+    for (const match of findWatchMatches(text, this.compiled)) {
+      if (!segment.isFinal && match.end >= text.length) continue;
+
+      const normalized = `${match.term.id}:${match.text.toLowerCase()}`;
+      const occurrence = occurrences.get(normalized) ?? 0;
+      occurrences.set(normalized, occurrence + 1);
+
+      const key = `${segment.id}:${normalized}:${occurrence}`;
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+
+      alerts.push({
+        id: crypto.randomUUID(),
+        termId: match.term.id,
+        pattern: match.term.pattern,
+        severity: match.term.severity,
+        match: match.text,
+        segmentId: segment.id,
+        timestamp: Date.now(),
+        ...(segment.speaker && { speaker: segment.speaker }),
+      });
+    }
+    return alerts;
+  }
+}
+
+// Short chime; higher and repeated for more severe alerts
+let soundContext: AudioContext | null = null;
+
+export function playAlertSound(severity: WatchSeverity) {
+  soundContext ??= new AudioContext();
+  const ctx = soundContext;
+  const frequency = { info: 660, warning: 880, critical: 1100 }[severity];
+  const beeps = severity === 'critical' ? 3 : 1;
+
+  for (let i = 0; i < beeps; i++) {
+    const start = ctx.currentTime + i * 0.18;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.001, start);
+    gain.gain.exponentialRampToValueAtTime(0.2, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.16);
+  }
+}
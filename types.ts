@@ -1,23 +1,281 @@
+// Built-in intent categories. Users can define more (see IntentCategory), so
+// DetectedIntent.type holds any category name, not just these.
 export enum IntentType {
   QUESTION = 'QUESTION',
   IMPERATIVE = 'IMPERATIVE'
 }
 
+export type IntentColor = 'blue' | 'amber' | 'green' | 'purple' | 'red' | 'rose' | 'cyan' | 'zinc';
+export type IntentIcon = 'question' | 'bolt' | 'check' | 'flag' | 'warning' | 'stop' | 'note' | 'star';
+
+export interface IntentCategory {
+  name: string;          // UPPER_SNAKE_CASE identifier the model reports
+  description: string;   // What the model should look for
+  color: IntentColor;
+  icon: IntentIcon;
+  wantsAnswer: boolean;  // Whether the model should produce an answer/acknowledgment
+}
+
+export enum ConnectionState {
+  IDLE = 'IDLE',
+  CONNECTING = 'CONNECTING',
+  OPEN = 'OPEN',
+  RECONNECTING = 'RECONNECTING',
+  CLOSING = 'CLOSING', // Tearing down; ends in IDLE, or FAILED after an error
+  FAILED = 'FAILED'
+}
+
+export interface MicrophoneSettings {
+  deviceId: string | null; // null follows the system default device
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+// How captured audio is gated before it is sent:
+// 'off' streams everything and leaves turn detection to the server,
+// 'vad' uses client-side voice activity detection, 'pushToTalk' sends while a key is held.
+export type GatingMode = 'off' | 'vad' | 'pushToTalk';
+
+export interface VadSettings {
+  mode: GatingMode;
+  thresholdDb: number;   // How far above the adaptive noise floor counts as speech
+  minLevelDb: number;    // Absolute level (dBFS) below which nothing counts as speech
+  hangoverMs: number;    // Keep sending this long after speech stops
+  preRollMs: number;     // Audio kept from before speech onset so words aren't clipped
+  pushToTalkKey: string; // KeyboardEvent.code, e.g. 'Space'
+}
+
+// Speakers are numbered within a session ("1", "2", ...). Until renamed they
+// are shown as "Speaker N"; renames are stored on the session.
+export type SpeakerNames = Record<string, string>;
+
+export interface DiarizationSettings {
+  enabled: boolean;        // Ask the model to tell voices apart
+  stereoChannels: boolean; // Attribute by channel when the input has separate left/right speakers
+}
+
+// Languages are BCP-47 codes; the source may be 'auto' to let the model detect it
+export interface TranslationSettings {
+  enabled: boolean;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface PlaybackSettings {
+  speakAnswers: boolean; // Let the model answer out loud as well as through the tool
+  volume: number;        // 0.0 to 1.0
+  muted: boolean;
+}
+
+export type CommandStatus = 'running' | 'succeeded' | 'failed';
+
+// A local command the model invoked for an imperative intent
+export interface CommandExecution {
+  command: string;
+  args: Record<string, unknown>;
+  status: CommandStatus;
+  output?: string;
+}
+
 export interface DetectedIntent {
   id: string;
   text: string;
-  type: IntentType;
+  type: string; // IntentCategory name
   timestamp: number;
   answer?: string;
+  execution?: CommandExecution;
+  speaker?: string;
+  // In translation mode `text` and `answer` are in the target language and
+  // this holds the words as spoken
+  originalText?: string;
+  // Knowledge base passages the answer is based on
+  citations?: KnowledgeCitation[];
 }
 
 export interface TranscriptSegment {
   id: string;
   text: string;
+  timestamp: number;    // When the first transcription for this turn arrived
+  endTimestamp: number; // When the latest transcription for this turn arrived
+  isFinal: boolean;     // False while the server may still extend the turn
+  speaker?: string;
+  translation?: string; // `text` in the target language, when translating
+}
+
+// Watch terms are matched locally against the transcript, independent of the model
+export type WatchTermKind = 'word' | 'phrase' | 'regex';
+export type WatchSeverity = 'info' | 'warning' | 'critical';
+
+export interface WatchTerm {
+  id: string;
+  pattern: string;
+  kind: WatchTermKind;
+  severity: WatchSeverity;
+}
+
+export interface WatchlistSettings {
+  terms: WatchTerm[];
+  notify: boolean; // Desktop notification per alert
+  sound: boolean;
+}
+
+export interface WatchAlert {
+  id: string;
+  termId: string;
+  pattern: string; // As it was when the alert fired; the term may change later
+  severity: WatchSeverity;
+  match: string;   // The matched text
+  segmentId: string;
+  timestamp: number;
+  speaker?: string;
+}
+
+// A local document the model can search while answering questions
+export interface KnowledgeDocument {
+  id: string;
+  name: string; // File name, shown when the document is cited
+  text: string;
+  addedAt: number;
+}
+
+// A searchable piece of a document, usually one section or a few paragraphs
+export interface KnowledgePassage {
+  id: string;      // `<document id>#<index>`
+  documentId: string;
+  documentName: string;
+  heading?: string; // The nearest Markdown heading above the passage
+  text: string;
+}
+
+// Copied from the passage when the intent is reported, so stored sessions keep
+// their citations after the document is removed or changed
+export interface KnowledgeCitation {
+  passageId: string;
+  documentName: string;
+  heading?: string;
+  text: string;
+}
+
+export interface ActionItem {
+  task: string;
+  owner?: string; // Who took it on, as named in the conversation or a speaker label
+}
+
+// Written by a text model after the run ends; the user may edit it afterwards
+export interface SessionReport {
+  summary: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[]; // Asked during the meeting and left unanswered
+  model: string;
+  generatedAt: number;
+  edited?: boolean;
+}
+
+export interface MonitoringSession {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  transcript: TranscriptSegment[];
+  intents: DetectedIntent[];
+  speakerNames?: SpeakerNames;
+  hasAudio?: boolean; // A SessionAudio recording is stored under the same id
+  translation?: { sourceLanguage: string; targetLanguage: string };
+  report?: SessionReport;
+  alerts?: WatchAlert[];
+}
+
+// Published to the configured integration sinks. `id` is unique per event so
+// receivers can drop duplicates; a segment is published again under the same
+// segment id if its translation arrives after it was finalized.
+interface IntegrationEventBase {
+  id: string;
+  sessionId: string;
   timestamp: number;
-  isFinal: boolean;
 }
 
+export type IntegrationEvent = IntegrationEventBase & (
+  | { type: 'session.started'; startedAt: number }
+  | { type: 'session.ended'; startedAt: number; endedAt: number; segmentCount: number; intentCount: number }
+  | { type: 'segment.finalized'; segment: TranscriptSegment }
+  | { type: 'intent.detected'; intent: DetectedIntent }
+  | { type: 'report.generated'; report: SessionReport }
+  | { type: 'watch.alert'; alert: WatchAlert }
+  | { type: 'test'; message: string }
+);
+
+export type IntegrationEventType = IntegrationEvent['type'];
+
+export type IntegrationSinkKind = 'webhook' | 'postMessage' | 'broadcast';
+
+export interface IntegrationSettings {
+  // Event types forwarded to every enabled sink (test events always are)
+  events: IntegrationEventType[];
+  webhook: { enabled: boolean; url: string; secret: string };
+  postMessage: { enabled: boolean; targetOrigin: string };
+  broadcast: { enabled: boolean; channelName: string };
+}
+
+// Captured input audio kept alongside a session. Frames are recorded with the
+// wall-clock time they were captured so transcript timestamps can be mapped
+// onto the recording even when a file was streamed faster than real time.
+export interface SessionAudio {
+  sessionId: string;
+  blob: Blob;             // audio/wav, 16-bit mono PCM
+  sampleRate: number;
+  frameDurationMs: number;
+  frameTimestamps: number[];
+}
+
+// One latency measurement series. Averages cover the whole run; the
+// percentile and `recent` (which feeds the sparklines) only the latest samples.
+export interface LatencyStats {
+  count: number;
+  avgMs: number | null;
+  p95Ms: number | null;
+  maxMs: number | null;
+  recent: number[];
+}
+
+export interface MetricsEvent {
+  at: number;
+  kind: 'open' | 'close' | 'goAway' | 'reconnecting' | 'error' | 'hold';
+  detail?: string;
+}
+
+// Pipeline measurements for one monitoring run, collected by LiveManager
+export interface LiveMetrics {
+  startedAt: number;
+  updatedAt: number;
+  speechToTranscript: LatencyStats;
+  speechToIntent: LatencyStats;
+  toolRoundTrip: LatencyStats;
+  audio: { framesSent: number; bytesSent: number; framesDropped: number };
+  // Server messages by kind, e.g. `serverContent.inputTranscription`, `toolCall`
+  messages: Record<string, number>;
+  toolCalls: Record<string, number>;
+  connections: number; // Sockets opened; all but the first are reconnects
+  reconnectAttempts: number;
+  goAways: number;
+  // Summed from the server's per-response usage metadata
+  tokens: { prompt: number; response: number; total: number };
+  // Per-second samples, oldest first
+  audioBytesPerSecond: number[];
+  messagesPerSecond: number[];
+  events: MetricsEvent[];
+}
+
+// Whether captured audio reaches the model during a run. Muted input is still
+// captured for the meter; paused input isn't captured at all. The session and
+// the model's context stay up either way.
+export type AudioHold = 'live' | 'muted' | 'paused';
+
+// Problems with the captured signal worth telling the user about
+export type InputHealth = 'ok' | 'clipping' | 'tooQuiet' | 'silent';
+
+export type VisualizerMode = 'spectrum' | 'waveform' | 'meter';
+
 export interface AudioVisualizerData {
   volume: number; // 0.0 to 1.0
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the headless monitor (lib/index.ts) as an ES module for other apps.
+// React and the Gemini SDK come from the embedding app. Type declarations are
+// emitted next to it by tsconfig.lib.json (see the build:lib script).
+export default defineConfig({
+  build: {
+    outDir: 'dist-lib',
+    lib: {
+      entry: path.resolve(__dirname, 'lib/index.ts'),
+      formats: ['es'],
+      fileName: 'gemini-live-monitor',
+    },
+    rollupOptions: {
+      external: ['react', 'react/jsx-runtime', 'react-dom', '@google/genai'],
+    },
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});